@@ -8,6 +8,8 @@ import { ChildModule } from './child/child.module';
 import { AuthModule } from './auth/auth.module';
 import { MessageModule } from './message/message.module';
 import { DangerZoneModule } from './danger-zone/danger-zone.module';
+import { SosModule } from './sos/sos.module';
+import { ArrivalModule } from './arrival/arrival.module';
 
 @Module({
   imports: [
@@ -22,28 +24,35 @@ import { DangerZoneModule } from './danger-zone/danger-zone.module';
         }
         // Sanitize common mistakes from dashboard pastes (quotes, key= duplication, whitespace)
         const trimmed = raw.trim().replace(/^"|"$/g, '').replace(/^'|'$/g, '');
-        const value = trimmed.startsWith('MONGODB_URI=') ? trimmed.split('=')[1] : trimmed;
-        if (!value.startsWith('mongodb://') && !value.startsWith('mongodb+srv://')) {
-          throw new Error('MONGODB_URI must start with mongodb:// or mongodb+srv://');
+        const value = trimmed.startsWith('MONGODB_URI=')
+          ? trimmed.split('=')[1]
+          : trimmed;
+        if (
+          !value.startsWith('mongodb://') &&
+          !value.startsWith('mongodb+srv://')
+        ) {
+          throw new Error(
+            'MONGODB_URI must start with mongodb:// or mongodb+srv://',
+          );
         }
         return value;
       })(),
       {
         retryWrites: true,
         w: 'majority',
-      }
+      },
     ),
     AuthModule,
     UserModule,
     ChildModule,
     MessageModule,
     DangerZoneModule,
+    SosModule,
+    ArrivalModule,
   ],
   controllers: [AppController],
   providers: [AppService],
 })
 export class AppModule implements NestModule {
-  configure(consumer: MiddlewareConsumer) {
- 
-  }
+  configure(consumer: MiddlewareConsumer) {}
 }
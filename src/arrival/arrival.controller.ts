@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ArrivalService } from './arrival.service';
+import { CreateArrivalExpectationDto } from './dto/create-arrival-expectation.dto';
+import { ArrivalStatus } from './schemas/arrival-expectation.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+import { UserRole } from '../user/schemas/user.schema';
+
+@ApiTags('Expected arrivals')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('arrivals')
+export class ArrivalController {
+  constructor(private readonly arrivalService: ArrivalService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.PARENT)
+  @ApiOperation({
+    summary:
+      'Expect a child at a zone or point by a deadline (PARENT of the child or ADMIN)',
+    description:
+      'Marked ARRIVED when a location update lands inside the target before the deadline. Otherwise marked MISSED at the deadline and every parent is alerted.',
+  })
+  @ApiResponse({ status: 201, description: 'Expected arrival created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing/ambiguous target or deadline in the past',
+  })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Child or zone not found' })
+  create(
+    @Body() createArrivalExpectationDto: CreateArrivalExpectationDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.arrivalService.create(createArrivalExpectationDto, currentUser);
+  }
+
+  @Get('child/:childId')
+  @ApiOperation({
+    summary:
+      'Get expected arrivals of a child (ADMIN, PARENT for their child, or CHILD themselves)',
+    description:
+      'Returns the last 100 expected arrivals, latest deadline first',
+  })
+  @ApiParam({ name: 'childId', description: 'Child ID' })
+  @ApiQuery({ name: 'status', required: false, enum: ArrivalStatus })
+  @ApiResponse({ status: 200, description: 'List of expected arrivals' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Child not found' })
+  findForChild(
+    @Param('childId') childId: string,
+    @CurrentUser() currentUser: any,
+    @Query('status') status?: ArrivalStatus,
+  ) {
+    if (status && !Object.values(ArrivalStatus).includes(status)) {
+      throw new BadRequestException(
+        `status must be one of ${Object.values(ArrivalStatus).join(', ')}`,
+      );
+    }
+    return this.arrivalService.findForChild(childId, currentUser, status);
+  }
+
+  @Patch(':id/cancel')
+  @Roles(UserRole.ADMIN, UserRole.PARENT)
+  @ApiOperation({
+    summary: 'Cancel a pending expected arrival (PARENT of the child or ADMIN)',
+  })
+  @ApiParam({ name: 'id', description: 'Expected arrival ID' })
+  @ApiResponse({ status: 200, description: 'Expected arrival cancelled' })
+  @ApiResponse({ status: 400, description: 'Expected arrival is not pending' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Expected arrival not found' })
+  cancel(@Param('id') id: string, @CurrentUser() currentUser: any) {
+    return this.arrivalService.cancel(id, currentUser);
+  }
+}
@@ -0,0 +1,33 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ArrivalController } from './arrival.controller';
+import { ArrivalService } from './arrival.service';
+import {
+  ArrivalExpectation,
+  ArrivalExpectationSchema,
+} from './schemas/arrival-expectation.schema';
+import { Child, ChildSchema } from '../child/schemas/child.schema';
+import {
+  DangerZone,
+  DangerZoneSchema,
+} from '../danger-zone/schemas/danger-zone.schema';
+import { DangerZoneModule } from '../danger-zone/danger-zone.module';
+import { NotificationModule } from '../notification/notification.module';
+import { MessageModule } from '../message/message.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ArrivalExpectation.name, schema: ArrivalExpectationSchema },
+      { name: Child.name, schema: ChildSchema },
+      { name: DangerZone.name, schema: DangerZoneSchema },
+    ]),
+    DangerZoneModule,
+    forwardRef(() => NotificationModule),
+    forwardRef(() => MessageModule),
+  ],
+  controllers: [ArrivalController],
+  providers: [ArrivalService],
+  exports: [ArrivalService],
+})
+export class ArrivalModule {}
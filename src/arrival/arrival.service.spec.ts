@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ArrivalService } from './arrival.service';
+import {
+  ArrivalExpectation,
+  ArrivalStatus,
+} from './schemas/arrival-expectation.schema';
+import { Child } from '../child/schemas/child.schema';
+import { DangerZone } from '../danger-zone/schemas/danger-zone.schema';
+import { DangerZoneEvent } from '../danger-zone/schemas/danger-zone-event.schema';
+import { DangerZoneState } from '../danger-zone/schemas/danger-zone-state.schema';
+import { DangerZoneService } from '../danger-zone/danger-zone.service';
+import { NotificationService } from '../notification/notification.service';
+import { ChatGateway } from '../message/gateway/chat.gateway';
+
+describe('ArrivalService', () => {
+  let service: ArrivalService;
+  let arrivalModel: any;
+  let childModel: any;
+  let notificationService: any;
+  let chatGateway: any;
+
+  const parentId = new Types.ObjectId();
+  const child = {
+    _id: new Types.ObjectId(),
+    firstName: 'Alice',
+    parent: parentId,
+    linkedParents: [],
+    location: { lat: 33.5731, lng: -7.6598, updatedAt: new Date() },
+  };
+  const buildExpectation = () => ({
+    _id: new Types.ObjectId(),
+    child: child._id,
+    dangerZone: null,
+    target: { lat: 33.5735, lng: -7.6598, radiusMeters: 100 },
+    label: 'School',
+    deadline: new Date('2025-11-17T08:15:00Z'),
+    status: ArrivalStatus.PENDING,
+  });
+
+  beforeEach(async () => {
+    arrivalModel = {
+      find: jest.fn(),
+      findOneAndUpdate: jest.fn((_filter: any, update: any) =>
+        Promise.resolve({
+          ...update.$set,
+          toObject() {
+            return this;
+          },
+        }),
+      ),
+    };
+    childModel = {
+      findById: jest.fn().mockResolvedValue(child),
+    };
+    notificationService = {
+      sendMissedArrivalAlert: jest.fn().mockResolvedValue(undefined),
+    };
+    chatGateway = { sendMessageToUser: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ArrivalService,
+        DangerZoneService,
+        {
+          provide: getModelToken(ArrivalExpectation.name),
+          useValue: arrivalModel,
+        },
+        {
+          provide: getModelToken(Child.name),
+          useValue: childModel,
+        },
+        {
+          provide: getModelToken(DangerZone.name),
+          useValue: {},
+        },
+        {
+          provide: getModelToken(DangerZoneEvent.name),
+          useValue: {},
+        },
+        {
+          provide: getModelToken(DangerZoneState.name),
+          useValue: {},
+        },
+        {
+          provide: NotificationService,
+          useValue: notificationService,
+        },
+        {
+          provide: ChatGateway,
+          useValue: chatGateway,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ArrivalService>(ArrivalService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('marks a pending expectation as arrived when the fix is inside the target', async () => {
+    const expectation = buildExpectation();
+    arrivalModel.find.mockReturnValue({
+      populate: jest
+        .fn()
+        .mockReturnValue({ exec: jest.fn().mockResolvedValue([expectation]) }),
+    });
+    const at = new Date('2025-11-17T08:05:00Z');
+
+    await service.checkArrivals(child as any, at);
+
+    expect(arrivalModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: expectation._id, status: ArrivalStatus.PENDING },
+      expect.objectContaining({
+        $set: expect.objectContaining({
+          status: ArrivalStatus.ARRIVED,
+          arrivedAt: at,
+        }),
+      }),
+      { new: true },
+    );
+  });
+
+  it('tells parents about an arrival when the child has its parents populated', async () => {
+    const linkedParentId = new Types.ObjectId();
+    const populatedChild = {
+      ...child,
+      parent: { _id: parentId, firstName: 'Sara' },
+      linkedParents: [{ _id: linkedParentId, firstName: 'Omar' }],
+    };
+    arrivalModel.find.mockReturnValue({
+      populate: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue([buildExpectation()]),
+      }),
+    });
+
+    await service.checkArrivals(
+      populatedChild as any,
+      new Date('2025-11-17T08:05:00Z'),
+    );
+
+    const sent = chatGateway.sendMessageToUser.mock.calls.map(
+      (call: any[]) => call[0],
+    );
+    expect(sent).toEqual([parentId.toString(), linkedParentId.toString()]);
+  });
+
+  it('alerts every parent when the deadline passes', async () => {
+    arrivalModel.find.mockReturnValue({
+      populate: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue([buildExpectation()]),
+      }),
+    });
+
+    await service.sweepMissedArrivals();
+
+    expect(notificationService.sendMissedArrivalAlert).toHaveBeenCalledWith(
+      parentId.toString(),
+      expect.objectContaining({ targetLabel: 'School' }),
+    );
+  });
+});
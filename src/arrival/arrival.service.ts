@@ -0,0 +1,344 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Inject,
+  forwardRef,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ArrivalExpectation,
+  ArrivalExpectationDocument,
+  ArrivalStatus,
+} from './schemas/arrival-expectation.schema';
+import { CreateArrivalExpectationDto } from './dto/create-arrival-expectation.dto';
+import { Child, ChildDocument } from '../child/schemas/child.schema';
+import {
+  DangerZone,
+  DangerZoneDocument,
+} from '../danger-zone/schemas/danger-zone.schema';
+import { UserRole } from '../user/schemas/user.schema';
+import { DangerZoneService } from '../danger-zone/danger-zone.service';
+import { NotificationService } from '../notification/notification.service';
+import { ChatGateway } from '../message/gateway/chat.gateway';
+
+// How often passed deadlines are looked for
+const DEADLINE_SWEEP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_TARGET_RADIUS_METERS = 100;
+
+@Injectable()
+export class ArrivalService implements OnModuleInit, OnModuleDestroy {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectModel(ArrivalExpectation.name)
+    private arrivalModel: Model<ArrivalExpectationDocument>,
+    @InjectModel(Child.name) private childModel: Model<ChildDocument>,
+    @InjectModel(DangerZone.name)
+    private dangerZoneModel: Model<DangerZoneDocument>,
+    private dangerZoneService: DangerZoneService,
+    @Inject(forwardRef(() => NotificationService))
+    private notificationService: NotificationService,
+    @Inject(forwardRef(() => ChatGateway))
+    private chatGateway: ChatGateway,
+  ) {}
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(() => {
+      this.sweepMissedArrivals().catch((error) => {
+        console.error('Error checking missed arrivals:', error);
+      });
+    }, DEADLINE_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Get all parent IDs of a child (main parent + linked parents)
+   * Works whether or not the parents are populated
+   */
+  private getParentIds(child: Child): string[] {
+    return [child.parent, ...child.linkedParents].map((p) =>
+      ((p as any)?._id ?? p).toString(),
+    );
+  }
+
+  /**
+   * Assert current user can manage expectations of this child (parent, linked parent or admin)
+   */
+  private assertParentAccess(child: Child, currentUser: any): void {
+    if (currentUser.role === UserRole.ADMIN) {
+      return;
+    }
+    if (currentUser.type === 'child') {
+      throw new ForbiddenException('Only parents can manage expected arrivals');
+    }
+    if (!this.getParentIds(child).includes(currentUser.id)) {
+      throw new ForbiddenException(
+        'You can only manage expected arrivals of your own children',
+      );
+    }
+  }
+
+  private emitToParents(child: Child, expectation: any): void {
+    for (const parentId of this.getParentIds(child)) {
+      this.chatGateway.sendMessageToUser(
+        parentId,
+        'arrivalExpectationUpdated',
+        expectation,
+      );
+    }
+  }
+
+  /**
+   * Expect a child at a zone or point by a deadline
+   */
+  async create(
+    dto: CreateArrivalExpectationDto,
+    currentUser: any,
+  ): Promise<ArrivalExpectation> {
+    if (!!dto.dangerZoneId === !!dto.target) {
+      throw new BadRequestException('Provide either dangerZoneId or target');
+    }
+
+    const deadline = new Date(dto.deadline);
+    if (deadline.getTime() <= Date.now()) {
+      throw new BadRequestException('deadline must be in the future');
+    }
+
+    const child = await this.childModel.findById(dto.childId);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+    this.assertParentAccess(child, currentUser);
+
+    let label = dto.label?.trim() || null;
+    if (dto.dangerZoneId) {
+      const zone = await this.dangerZoneModel.findById(dto.dangerZoneId);
+      if (!zone) {
+        throw new NotFoundException('Danger zone not found');
+      }
+      // Zone must belong to one of the child's parents
+      if (
+        currentUser.role !== UserRole.ADMIN &&
+        !this.getParentIds(child).includes(zone.parent.toString())
+      ) {
+        throw new ForbiddenException(
+          'You can only use zones of your own family',
+        );
+      }
+      label = label ?? zone.name;
+    }
+
+    const expectation = await this.arrivalModel.create({
+      child: child._id,
+      createdBy: new Types.ObjectId(currentUser.id),
+      dangerZone: dto.dangerZoneId
+        ? new Types.ObjectId(dto.dangerZoneId)
+        : null,
+      target: dto.target
+        ? {
+            lat: dto.target.lat,
+            lng: dto.target.lng,
+            radiusMeters:
+              dto.target.radiusMeters ?? DEFAULT_TARGET_RADIUS_METERS,
+          }
+        : null,
+      label,
+      deadline,
+      status: ArrivalStatus.PENDING,
+    });
+
+    this.emitToParents(child, expectation.toObject());
+    return expectation;
+  }
+
+  /**
+   * Expected arrivals of a child (newest deadline first)
+   */
+  async findForChild(
+    childId: string,
+    currentUser: any,
+    status?: ArrivalStatus,
+  ): Promise<ArrivalExpectation[]> {
+    const child = await this.childModel.findById(childId);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    if (currentUser.type === 'child') {
+      if (currentUser.id !== childId) {
+        throw new ForbiddenException(
+          'You can only access your own expected arrivals',
+        );
+      }
+    } else {
+      this.assertParentAccess(child, currentUser);
+    }
+
+    const query: any = { child: child._id };
+    if (status) {
+      query.status = status;
+    }
+
+    return this.arrivalModel
+      .find(query)
+      .populate('dangerZone', 'name kind')
+      .sort({ deadline: -1 })
+      .limit(100)
+      .exec();
+  }
+
+  /**
+   * Cancel a pending expectation
+   */
+  async cancel(id: string, currentUser: any): Promise<ArrivalExpectation> {
+    const expectation = await this.arrivalModel.findById(id);
+    if (!expectation) {
+      throw new NotFoundException('Expected arrival not found');
+    }
+
+    const child = await this.childModel.findById(expectation.child);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+    this.assertParentAccess(child, currentUser);
+
+    if (expectation.status !== ArrivalStatus.PENDING) {
+      throw new BadRequestException(
+        `Cannot cancel an expected arrival that is ${expectation.status}`,
+      );
+    }
+
+    expectation.status = ArrivalStatus.CANCELLED;
+    await expectation.save();
+
+    this.emitToParents(child, expectation.toObject());
+    return expectation;
+  }
+
+  /**
+   * Mark pending expectations as ARRIVED when a location update lands inside their target
+   * Fixes after the deadline are left to the deadline sweep
+   */
+  async checkArrivals(child: Child, at: Date = new Date()): Promise<void> {
+    if (child.location?.lat == null || child.location?.lng == null) {
+      return;
+    }
+
+    const pending = await this.arrivalModel
+      .find({
+        child: (child as any)._id,
+        status: ArrivalStatus.PENDING,
+        deadline: { $gte: at },
+        createdAt: { $lte: at },
+      })
+      .populate('dangerZone')
+      .exec();
+
+    for (const expectation of pending) {
+      if (!this.isInsideTarget(expectation, child.location)) {
+        continue;
+      }
+
+      const arrived = await this.arrivalModel.findOneAndUpdate(
+        { _id: expectation._id, status: ArrivalStatus.PENDING },
+        {
+          $set: {
+            status: ArrivalStatus.ARRIVED,
+            arrivedAt: at,
+            arrivalLocation: {
+              lat: child.location.lat,
+              lng: child.location.lng,
+            },
+          },
+        },
+        { new: true },
+      );
+      if (arrived) {
+        console.log(
+          `✅ Child ${(child as any)._id} arrived at ${expectation.label ?? 'target'}`,
+        );
+        this.emitToParents(child, arrived.toObject());
+      }
+    }
+  }
+
+  private isInsideTarget(
+    expectation: ArrivalExpectationDocument,
+    location: { lat: number; lng: number },
+  ): boolean {
+    const zone = expectation.dangerZone as unknown as DangerZone | null;
+    if (zone) {
+      return this.dangerZoneService.isInsideZone(zone, location);
+    }
+    if (!expectation.target) {
+      return false;
+    }
+    const distance = this.dangerZoneService.calculateDistance(
+      location.lat,
+      location.lng,
+      expectation.target.lat,
+      expectation.target.lng,
+    );
+    return distance <= expectation.target.radiusMeters;
+  }
+
+  /**
+   * Mark expectations whose deadline passed as MISSED and alert every parent once
+   */
+  async sweepMissedArrivals(): Promise<void> {
+    const now = new Date();
+    const overdue = await this.arrivalModel
+      .find({ status: ArrivalStatus.PENDING, deadline: { $lt: now } })
+      .populate('dangerZone', 'name')
+      .exec();
+
+    for (const expectation of overdue) {
+      const missed = await this.arrivalModel.findOneAndUpdate(
+        { _id: expectation._id, status: ArrivalStatus.PENDING },
+        { $set: { status: ArrivalStatus.MISSED, missedAt: now } },
+        { new: true },
+      );
+      if (!missed) {
+        continue;
+      }
+
+      const child = await this.childModel.findById(expectation.child);
+      if (!child) {
+        continue;
+      }
+
+      const zone = expectation.dangerZone as unknown as DangerZone | null;
+      const targetLabel =
+        expectation.label ?? zone?.name ?? 'the expected place';
+      console.log(`⏰ Child ${child.id} missed arrival at ${targetLabel}`);
+
+      this.emitToParents(child, missed.toObject());
+      for (const parentId of this.getParentIds(child)) {
+        try {
+          await this.notificationService.sendMissedArrivalAlert(parentId, {
+            child,
+            expectation: missed,
+            targetLabel,
+          });
+        } catch (error) {
+          console.error(
+            `Failed to send missed arrival notification to parent ${parentId}:`,
+            error,
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+class ArrivalTargetDto {
+  @ApiProperty({ example: 33.5731, description: 'Latitude' })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ example: -7.6598, description: 'Longitude' })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+
+  @ApiPropertyOptional({
+    example: 150,
+    description: 'Arrival radius in meters (20-5000)',
+    default: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(20)
+  @Max(5000)
+  radiusMeters?: number;
+}
+
+/**
+ * Exactly one of dangerZoneId or target must be provided
+ */
+export class CreateArrivalExpectationDto {
+  @ApiProperty({
+    example: '507f1f77bcf86cd799439011',
+    description: 'Child expected to arrive',
+  })
+  @IsMongoId()
+  childId: string;
+
+  @ApiPropertyOptional({
+    example: '507f1f77bcf86cd799439012',
+    description: 'Zone to reach (e.g. the school safe zone)',
+  })
+  @IsOptional()
+  @IsMongoId()
+  dangerZoneId?: string;
+
+  @ApiPropertyOptional({
+    type: ArrivalTargetDto,
+    description: 'Point to reach, when no zone is given',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ArrivalTargetDto)
+  target?: ArrivalTargetDto;
+
+  @ApiPropertyOptional({
+    example: 'School',
+    description: 'Label shown in alerts (defaults to the zone name)',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  label?: string;
+
+  @ApiProperty({
+    example: '2025-11-17T08:15:00.000Z',
+    description: 'Time by which the child should have arrived',
+  })
+  @IsDateString()
+  deadline: string;
+}
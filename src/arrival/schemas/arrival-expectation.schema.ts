@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ArrivalExpectationDocument = ArrivalExpectation & Document;
+
+export enum ArrivalStatus {
+  PENDING = 'PENDING', // waiting for the child to reach the target
+  ARRIVED = 'ARRIVED', // a location update landed inside the target before the deadline
+  MISSED = 'MISSED', // deadline passed without arrival, parents alerted
+  CANCELLED = 'CANCELLED',
+}
+
+@Schema({ timestamps: true })
+export class ArrivalExpectation {
+  @Prop({ type: Types.ObjectId, ref: 'Child', required: true })
+  child: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  // Target is either an existing zone or a point with a radius
+  @Prop({ type: Types.ObjectId, ref: 'DangerZone', default: null })
+  dangerZone: Types.ObjectId | null;
+
+  @Prop({
+    type: {
+      lat: { type: Number },
+      lng: { type: Number },
+      radiusMeters: { type: Number },
+    },
+    default: null,
+  })
+  target: { lat: number; lng: number; radiusMeters: number } | null;
+
+  @Prop({ type: String, default: null })
+  label: string | null; // e.g. "School"
+
+  @Prop({ type: Date, required: true })
+  deadline: Date;
+
+  @Prop({ enum: ArrivalStatus, default: ArrivalStatus.PENDING })
+  status: ArrivalStatus;
+
+  @Prop({ type: Date, default: null })
+  arrivedAt: Date | null; // time of the fix inside the target
+
+  @Prop({
+    type: {
+      lat: { type: Number },
+      lng: { type: Number },
+    },
+    default: null,
+  })
+  arrivalLocation: { lat: number; lng: number } | null;
+
+  @Prop({ type: Date, default: null })
+  missedAt: Date | null;
+}
+
+export const ArrivalExpectationSchema =
+  SchemaFactory.createForClass(ArrivalExpectation);
+
+// Indexes for per-child lookups on location updates and the deadline sweep
+ArrivalExpectationSchema.index({ child: 1, status: 1 });
+ArrivalExpectationSchema.index({ status: 1, deadline: 1 });
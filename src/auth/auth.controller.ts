@@ -1,16 +1,49 @@
-import { Controller, Post, Body } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Body,
+  Get,
+  Delete,
+  Param,
+  Headers,
+  Ip,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
 import { AuthService } from './auth.service';
+import { SessionService, SessionMeta } from './session.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/user.decorator';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { QrLoginDto } from './dto/qr-login.dto';
 import { GoogleAuthDto } from './dto/google-auth.dto';
-import { VerifyAccountDto, ResendCodeDto, ForgotPasswordRequestDto, ResetPasswordDto } from './dto/verify.dto';
+import {
+  VerifyAccountDto,
+  ResendCodeDto,
+  ForgotPasswordRequestDto,
+  ResetPasswordDto,
+} from './dto/verify.dto';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  private toMeta(userAgent?: string, ip?: string): SessionMeta {
+    return { userAgent: userAgent || null, ip: ip || null };
+  }
 
   @Post('register')
   @ApiOperation({ summary: 'Register a new user' })
@@ -24,31 +57,118 @@ export class AuthController {
   @ApiOperation({ summary: 'Login user with email/password' })
   @ApiResponse({ status: 200, description: 'Successfully logged in' })
   @ApiResponse({ status: 401, description: 'Invalid credentials' })
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ip?: string,
+  ) {
+    return this.authService.login(loginDto, this.toMeta(userAgent, ip));
   }
 
   @Post('login/google')
   @ApiOperation({ summary: 'Login/Register user with Google' })
-  @ApiResponse({ status: 200, description: 'Successfully authenticated with Google' })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully authenticated with Google',
+  })
   @ApiResponse({ status: 401, description: 'Invalid Google token' })
-  async googleAuth(@Body() googleAuthDto: GoogleAuthDto) {
-    return this.authService.googleAuth(googleAuthDto);
+  async googleAuth(
+    @Body() googleAuthDto: GoogleAuthDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ip?: string,
+  ) {
+    return this.authService.googleAuth(
+      googleAuthDto,
+      this.toMeta(userAgent, ip),
+    );
   }
 
   @Post('login/qr')
   @ApiOperation({ summary: 'Login child with QR code' })
   @ApiResponse({ status: 200, description: 'Child successfully logged in' })
   @ApiResponse({ status: 401, description: 'Invalid QR code' })
-  async loginWithQr(@Body() qrLoginDto: QrLoginDto) {
-    return this.authService.loginWithQrCode(qrLoginDto.qrCode);
+  async loginWithQr(
+    @Body() qrLoginDto: QrLoginDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ip?: string,
+  ) {
+    return this.authService.loginWithQrCode(
+      qrLoginDto.qrCode,
+      this.toMeta(userAgent, ip),
+    );
+  }
+
+  @Post('refresh')
+  @ApiOperation({
+    summary:
+      'Exchange a refresh token for a new access token and refresh token',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'New token pair (the old refresh token can no longer be used)',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid, expired, revoked or reused refresh token',
+  })
+  async refresh(
+    @Body() dto: RefreshTokenDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ip?: string,
+  ) {
+    return this.authService.refresh(
+      dto.refreshToken,
+      this.toMeta(userAgent, ip),
+    );
+  }
+
+  @Post('logout')
+  @ApiOperation({ summary: 'Logout: revoke the session of a refresh token' })
+  @ApiResponse({ status: 200, description: 'Logged out' })
+  async logout(@Body() dto: RefreshTokenDto) {
+    return this.authService.logout(dto.refreshToken);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List my active sessions (devices)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active sessions, `current` marks the one making the request',
+  })
+  async listSessions(@CurrentUser() currentUser: any) {
+    return this.sessionService.listForSubject(currentUser);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Revoke one of my sessions (signs that device out)',
+  })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: 200, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @Param('id') id: string,
+    @CurrentUser() currentUser: any,
+  ) {
+    if (!/^[a-fA-F0-9]{24}$/.test(id)) {
+      throw new BadRequestException('id must be a 24-char hex Mongo ObjectId');
+    }
+    return this.sessionService.revokeForSubject(id, currentUser);
   }
 
   @Post('verify')
   @ApiOperation({ summary: 'Verify account with code (email or SMS)' })
   @ApiResponse({ status: 200, description: 'Account verified' })
-  async verify(@Body() dto: VerifyAccountDto) {
-    return this.authService.verifyAccount(dto);
+  async verify(
+    @Body() dto: VerifyAccountDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ip?: string,
+  ) {
+    return this.authService.verifyAccount(dto, this.toMeta(userAgent, ip));
   }
 
   @Post('resend-code')
@@ -69,4 +189,3 @@ export class AuthController {
     return this.authService.resetPassword(dto);
   }
 }
-
@@ -6,6 +6,8 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { SessionService } from './session.service';
+import { Session, SessionSchema } from './schemas/session.schema';
 import { User, UserSchema } from '../user/schemas/user.schema';
 import { Child, ChildSchema } from '../child/schemas/child.schema';
 import { EmailService } from '../notification/email.service';
@@ -16,24 +18,46 @@ import { SmsService } from '../notification/sms.service';
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: Child.name, schema: ChildSchema },
+      { name: Session.name, schema: SessionSchema },
     ]),
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => {
-        const secret = configService.get<string>('JWT_SECRET') || 'your-secret-key-change-in-production';
-        console.log('🔐 JWT Secret loaded (signing):', secret ? `${secret.substring(0, 20)}...` : 'NOT SET');
+        const secret =
+          configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production';
+        console.log(
+          '🔐 JWT Secret loaded (signing):',
+          secret ? `${secret.substring(0, 20)}...` : 'NOT SET',
+        );
+        // Access tokens keep the 7 day lifetime clients that do not refresh yet rely on
+        // Set JWT_ACCESS_EXPIRES_IN_SECONDS to shorten it once clients renew with POST /auth/refresh
+        const seconds = parseInt(
+          configService.get<string>('JWT_ACCESS_EXPIRES_IN_SECONDS') || '',
+          10,
+        );
         return {
           secret,
-          signOptions: { expiresIn: '7d' },
+          signOptions: {
+            expiresIn:
+              Number.isFinite(seconds) && seconds > 0
+                ? seconds
+                : 7 * 24 * 60 * 60,
+          },
         };
       },
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, EmailService, SmsService],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    SessionService,
+    JwtStrategy,
+    EmailService,
+    SmsService,
+  ],
+  exports: [AuthService, SessionService],
 })
 export class AuthModule {}
-
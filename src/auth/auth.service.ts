@@ -1,4 +1,9 @@
-import { Injectable, ConflictException, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  ConflictException,
+  UnauthorizedException,
+  BadRequestException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
@@ -10,9 +15,15 @@ import { Child, ChildDocument } from '../child/schemas/child.schema';
 import { RegisterDto } from './dto/register.dto';
 import { EmailService } from '../notification/email.service';
 import { SmsService } from '../notification/sms.service';
-import { VerifyAccountDto, ResendCodeDto, ForgotPasswordRequestDto, ResetPasswordDto } from './dto/verify.dto';
+import {
+  VerifyAccountDto,
+  ResendCodeDto,
+  ForgotPasswordRequestDto,
+  ResetPasswordDto,
+} from './dto/verify.dto';
 import { LoginDto } from './dto/login.dto';
 import { GoogleAuthDto } from './dto/google-auth.dto';
+import { SessionService, SessionMeta } from './session.service';
 
 @Injectable()
 export class AuthService {
@@ -25,12 +36,83 @@ export class AuthService {
     private emailService: EmailService,
     private smsService: SmsService,
     private configService: ConfigService,
+    private sessionService: SessionService,
   ) {
     // Initialize Google OAuth client
     const googleClientId = this.configService.get<string>('GOOGLE_CLIENT_ID');
     this.googleClient = new OAuth2Client(googleClientId);
   }
 
+  /**
+   * Open a session and sign an access token bound to it (`sid` claim)
+   */
+  private async issueTokens(payload: Record<string, any>, meta: SessionMeta) {
+    const { session, refreshToken } = await this.sessionService.create(
+      payload.type === 'child' ? 'Child' : 'User',
+      payload.sub,
+      meta,
+    );
+
+    return {
+      access_token: this.jwtService.sign({
+        ...payload,
+        sid: (session._id as any).toString(),
+      }),
+      refresh_token: refreshToken,
+    };
+  }
+
+  /**
+   * Rotate a refresh token and issue a new access token for the same session
+   */
+  async refresh(refreshToken: string, meta: SessionMeta = {}) {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionService.rotate(refreshToken, meta);
+    const sid = (session._id as any).toString();
+    const subjectId = session.subject.toString();
+
+    let payload: Record<string, any>;
+    if (session.subjectModel === 'Child') {
+      const child = await this.childModel.findById(subjectId);
+      if (!child || child.status !== 'ACTIVE') {
+        await this.sessionService.revokeAllForSubject(
+          subjectId,
+          'ACCOUNT_INACTIVE',
+        );
+        throw new UnauthorizedException('Child account is inactive');
+      }
+      payload = { sub: subjectId, role: 'CHILD', type: 'child' };
+    } else {
+      const user = await this.userModel.findById(subjectId);
+      if (!user || user.status !== 'ACTIVE') {
+        await this.sessionService.revokeAllForSubject(
+          subjectId,
+          'ACCOUNT_INACTIVE',
+        );
+        throw new UnauthorizedException('User account is inactive');
+      }
+      payload = {
+        sub: subjectId,
+        email: user.email,
+        role: user.role,
+        type: 'user',
+      };
+    }
+
+    return {
+      access_token: this.jwtService.sign({ ...payload, sid }),
+      refresh_token: nextRefreshToken,
+    };
+  }
+
+  /**
+   * Revoke the session of a refresh token (always succeeds, even for unknown tokens)
+   */
+  async logout(refreshToken: string) {
+    await this.sessionService.revokeByRefreshToken(refreshToken);
+    return { message: 'Logged out successfully' };
+  }
+
   private generateCode(length = 6): string {
     const min = Math.pow(10, length - 1);
     const max = Math.pow(10, length) - 1;
@@ -38,7 +120,9 @@ export class AuthService {
   }
 
   async register(registerDto: RegisterDto) {
-    const existingUser = await this.userModel.findOne({ email: registerDto.email });
+    const existingUser = await this.userModel.findOne({
+      email: registerDto.email,
+    });
     if (existingUser) {
       throw new ConflictException('User with this email already exists');
     }
@@ -68,12 +152,12 @@ export class AuthService {
       await this.emailService.send(
         user.email,
         'Verify your WeldiWin account',
-        `<p>Hello ${user.firstName},</p><p>Your verification code is <b>${code}</b>. It expires in 15 minutes.</p>`
+        `<p>Hello ${user.firstName},</p><p>Your verification code is <b>${code}</b>. It expires in 15 minutes.</p>`,
       );
     } else if (channel === 'sms') {
       await this.smsService.send(
         user.phoneNumber,
-        `WeldiWin verification code: ${code} (expires in 15 minutes)`
+        `WeldiWin verification code: ${code} (expires in 15 minutes)`,
       );
     }
 
@@ -84,14 +168,17 @@ export class AuthService {
     };
   }
 
-  async login(loginDto: LoginDto) {
+  async login(loginDto: LoginDto, meta: SessionMeta = {}) {
     // Only users can login via email/password (children use QR code)
     const user = await this.userModel.findOne({ email: loginDto.email });
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const isPasswordValid = await bcrypt.compare(loginDto.password, user.password);
+    const isPasswordValid = await bcrypt.compare(
+      loginDto.password,
+      user.password,
+    );
     if (!isPasswordValid) {
       throw new UnauthorizedException('Invalid credentials');
     }
@@ -117,20 +204,20 @@ export class AuthService {
 
     return {
       user: result,
-      access_token: this.jwtService.sign(payload),
+      ...(await this.issueTokens(payload, meta)),
     };
   }
 
   async validateUser(email: string, password: string) {
     const user = await this.userModel.findOne({ email });
-    if (user && await bcrypt.compare(password, user.password)) {
+    if (user && (await bcrypt.compare(password, user.password))) {
       const { password, ...result } = user.toObject();
       return result;
     }
     return null;
   }
 
-  async loginWithQrCode(qrCode: string) {
+  async loginWithQrCode(qrCode: string, meta: SessionMeta = {}) {
     // Find child by QR code
     const child = await this.childModel.findOne({ qrCode });
     if (!child) {
@@ -142,6 +229,21 @@ export class AuthService {
       throw new UnauthorizedException('Child account is inactive');
     }
 
+    if (child.qrCodeExpiresAt && child.qrCodeExpiresAt.getTime() < Date.now()) {
+      throw new UnauthorizedException('QR code has expired');
+    }
+
+    // Consume a single-use code atomically so it cannot be used twice
+    if (child.qrCodeSingleUse) {
+      const consumed = await this.childModel.updateOne(
+        { _id: child._id, qrCode },
+        { $set: { qrCode: null, qrCodeExpiresAt: null } },
+      );
+      if (consumed.modifiedCount === 0) {
+        throw new UnauthorizedException('Invalid QR code');
+      }
+    }
+
     // Generate JWT token for child
     const payload = {
       sub: (child._id as any).toString(),
@@ -149,21 +251,24 @@ export class AuthService {
       type: 'child',
     };
 
-    const { qrCode: qr, ...result } = child.toObject();
+    const { qrCode: qr, pairingCode, ...result } = child.toObject();
 
     return {
       child: result,
-      access_token: this.jwtService.sign(payload),
+      ...(await this.issueTokens(payload, meta)),
     };
   }
 
-  private async findUserByIdentifier(email?: string, phoneNumber?: string): Promise<UserDocument | null> {
+  private async findUserByIdentifier(
+    email?: string,
+    phoneNumber?: string,
+  ): Promise<UserDocument | null> {
     if (email) return this.userModel.findOne({ email });
     if (phoneNumber) return this.userModel.findOne({ phoneNumber });
     return null;
   }
 
-  async verifyAccount(dto: VerifyAccountDto) {
+  async verifyAccount(dto: VerifyAccountDto, meta: SessionMeta = {}) {
     const user = await this.findUserByIdentifier(dto.email, dto.phoneNumber);
     if (!user) throw new UnauthorizedException('User not found');
     if (!user.verificationCode || !user.verificationCodeExpiresAt) {
@@ -179,7 +284,7 @@ export class AuthService {
     user.verificationCode = null;
     user.verificationCodeExpiresAt = null as any;
     await user.save({ validateModifiedOnly: true });
-    
+
     // Generate JWT token for automatic login after verification
     const payload = {
       sub: (user._id as any).toString(),
@@ -187,12 +292,12 @@ export class AuthService {
       role: user.role,
       type: 'user',
     };
-    
+
     const { password, ...result } = user.toObject();
-    return { 
-      user: result, 
+    return {
+      user: result,
       message: 'Account verified successfully',
-      access_token: this.jwtService.sign(payload)
+      ...(await this.issueTokens(payload, meta)),
     };
   }
 
@@ -202,13 +307,19 @@ export class AuthService {
     if (user.isVerified) return { message: 'Account already verified' };
 
     // rate limit: 60 seconds
-    if (user.lastCodeSentAt && Date.now() - new Date(user.lastCodeSentAt).getTime() < 60_000) {
-      throw new BadRequestException('Please wait before requesting another code');
+    if (
+      user.lastCodeSentAt &&
+      Date.now() - new Date(user.lastCodeSentAt).getTime() < 60_000
+    ) {
+      throw new BadRequestException(
+        'Please wait before requesting another code',
+      );
     }
 
     const code = this.generateCode(6);
     const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
-    const channel: 'email' | 'sms' = dto.channel || user.verificationChannel || 'email';
+    const channel: 'email' | 'sms' =
+      dto.channel || user.verificationChannel || 'email';
 
     user.verificationCode = code;
     user.verificationCodeExpiresAt = expiresAt as any;
@@ -220,10 +331,13 @@ export class AuthService {
       await this.emailService.send(
         user.email,
         'Your verification code',
-        `<p>Your verification code is <b>${code}</b>. It expires in 15 minutes.</p>`
+        `<p>Your verification code is <b>${code}</b>. It expires in 15 minutes.</p>`,
       );
     } else {
-      await this.smsService.send(user.phoneNumber, `Verification code: ${code} (expires in 15 minutes)`);
+      await this.smsService.send(
+        user.phoneNumber,
+        `Verification code: ${code} (expires in 15 minutes)`,
+      );
     }
     return { message: 'Verification code sent' };
   }
@@ -245,10 +359,13 @@ export class AuthService {
       await this.emailService.send(
         user.email,
         'Reset your password',
-        `<p>Your password reset code is <b>${code}</b>. It expires in 15 minutes.</p>`
+        `<p>Your password reset code is <b>${code}</b>. It expires in 15 minutes.</p>`,
       );
     } else {
-      await this.smsService.send(user.phoneNumber, `Password reset code: ${code} (15 minutes)`);
+      await this.smsService.send(
+        user.phoneNumber,
+        `Password reset code: ${code} (15 minutes)`,
+      );
     }
     return { message: 'If an account exists, a code has been sent' };
   }
@@ -269,10 +386,16 @@ export class AuthService {
     user.passwordResetCode = null;
     user.passwordResetExpiresAt = null as any;
     await user.save({ validateModifiedOnly: true });
+
+    // Sign out every device that used the old password
+    await this.sessionService.revokeAllForSubject(
+      (user._id as any).toString(),
+      'PASSWORD_RESET',
+    );
     return { message: 'Password has been reset successfully' };
   }
 
-  async googleAuth(googleAuthDto: GoogleAuthDto) {
+  async googleAuth(googleAuthDto: GoogleAuthDto, meta: SessionMeta = {}) {
     try {
       // Verify the Google ID token
       const ticket = await this.googleClient.verifyIdToken({
@@ -285,7 +408,13 @@ export class AuthService {
         throw new UnauthorizedException('Invalid Google token');
       }
 
-      const { email, given_name, family_name, picture, sub: googleId } = payload;
+      const {
+        email,
+        given_name,
+        family_name,
+        picture,
+        sub: googleId,
+      } = payload;
 
       if (!email) {
         throw new BadRequestException('Email not provided by Google');
@@ -325,16 +454,19 @@ export class AuthService {
         throw new UnauthorizedException('User account is not active');
       }
 
-      // Generate JWT token
-      const token = this.jwtService.sign({
-        sub: (user._id as any).toString(),
-        email: user.email,
-        role: user.role,
-        type: 'user',
-      });
+      // Generate JWT tokens
+      const tokens = await this.issueTokens(
+        {
+          sub: (user._id as any).toString(),
+          email: user.email,
+          role: user.role,
+          type: 'user',
+        },
+        meta,
+      );
 
       return {
-        access_token: token,
+        ...tokens,
         user: {
           _id: (user._id as any).toString(),
           firstName: user.firstName,
@@ -345,8 +477,9 @@ export class AuthService {
       };
     } catch (error: any) {
       console.error('Google Auth Error:', error.message);
-      throw new UnauthorizedException('Google authentication failed: ' + error.message);
+      throw new UnauthorizedException(
+        'Google authentication failed: ' + error.message,
+      );
     }
   }
 }
-
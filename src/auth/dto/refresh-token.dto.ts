@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    example: '674a1f2e9c1b2a0012345678.k3Jx...',
+    description: 'Refresh token returned by login or the last refresh',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
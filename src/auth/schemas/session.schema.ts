@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SessionDocument = Session & Document;
+
+/**
+ * A signed-in device. Holds the hash of the current refresh token;
+ * access tokens reference it through their `sid` claim
+ */
+@Schema({ timestamps: true })
+export class Session {
+  // Polymorphic subject: either User (parent/admin) or Child
+  @Prop({ required: true, enum: ['User', 'Child'] })
+  subjectModel: 'User' | 'Child';
+
+  @Prop({ type: Types.ObjectId, required: true })
+  subject: Types.ObjectId;
+
+  @Prop({ required: true })
+  refreshTokenHash: string; // sha256 of the current refresh secret
+
+  @Prop({ type: String, default: null })
+  userAgent: string | null;
+
+  @Prop({ type: String, default: null })
+  ip: string | null;
+
+  @Prop({ type: Date, default: () => new Date() })
+  lastUsedAt: Date;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  @Prop({ type: Date, default: null })
+  revokedAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  revokedReason: string | null; // LOGOUT, REVOKED, TOKEN_REUSE, PASSWORD_RESET, ...
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+// Index for listing the sessions of an account
+SessionSchema.index({ subject: 1, revokedAt: 1 });
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
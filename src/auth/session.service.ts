@@ -0,0 +1,245 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Observable, Subject } from 'rxjs';
+import { Session, SessionDocument } from './schemas/session.schema';
+
+export interface SessionMeta {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+export interface SessionRevocation {
+  subjectId: string;
+  sessionId: string | null; // null when every session of the subject was revoked
+}
+
+@Injectable()
+export class SessionService {
+  private readonly revocations = new Subject<SessionRevocation>();
+
+  /**
+   * Sessions as they are revoked, so long-lived connections (chat sockets) can be closed
+   */
+  readonly revoked$: Observable<SessionRevocation> =
+    this.revocations.asObservable();
+
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private getExpiresAt(): Date {
+    const days = parseInt(
+      this.configService.get<string>('JWT_REFRESH_EXPIRES_IN_DAYS') || '30',
+      10,
+    );
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Refresh tokens are `<sessionId>.<secret>`; only the secret's hash is stored
+   */
+  private parseRefreshToken(
+    refreshToken: string,
+  ): { sessionId: string; secret: string } | null {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+      return null;
+    }
+    return { sessionId, secret };
+  }
+
+  /**
+   * Open a session for a user or child and return its first refresh token
+   */
+  async create(
+    subjectModel: 'User' | 'Child',
+    subjectId: string,
+    meta: SessionMeta = {},
+  ): Promise<{ session: SessionDocument; refreshToken: string }> {
+    const secret = randomBytes(32).toString('base64url');
+    const session = await this.sessionModel.create({
+      subjectModel,
+      subject: new Types.ObjectId(subjectId),
+      refreshTokenHash: this.hashSecret(secret),
+      userAgent: meta.userAgent ?? null,
+      ip: meta.ip ?? null,
+      lastUsedAt: new Date(),
+      expiresAt: this.getExpiresAt(),
+    });
+
+    return {
+      session,
+      refreshToken: `${(session._id as any).toString()}.${secret}`,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new one (rotation)
+   * Presenting an already rotated token revokes the whole session
+   */
+  async rotate(
+    refreshToken: string,
+    meta: SessionMeta = {},
+  ): Promise<{ session: SessionDocument; refreshToken: string }> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const secret = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const session = await this.sessionModel.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(parsed.sessionId),
+        refreshTokenHash: this.hashSecret(parsed.secret),
+        revokedAt: null,
+        expiresAt: { $gt: now },
+      },
+      {
+        $set: {
+          refreshTokenHash: this.hashSecret(secret),
+          lastUsedAt: now,
+          expiresAt: this.getExpiresAt(),
+          ...(meta.userAgent ? { userAgent: meta.userAgent } : {}),
+          ...(meta.ip ? { ip: meta.ip } : {}),
+        },
+      },
+      { new: true },
+    );
+
+    if (!session) {
+      const existing = await this.sessionModel.findById(parsed.sessionId);
+      if (existing && !existing.revokedAt && existing.expiresAt > now) {
+        // Old token replayed after rotation: assume it was stolen
+        existing.revokedAt = now;
+        existing.revokedReason = 'TOKEN_REUSE';
+        await existing.save();
+        this.revocations.next({
+          subjectId: existing.subject.toString(),
+          sessionId: parsed.sessionId,
+        });
+        console.warn(
+          `⚠️ Refresh token reuse detected, session ${parsed.sessionId} revoked`,
+        );
+      }
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return { session, refreshToken: `${parsed.sessionId}.${secret}` };
+  }
+
+  /**
+   * Check that an access token's session is still valid
+   */
+  async isActive(sessionId: string, subjectId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+    const session = await this.sessionModel
+      .findById(sessionId)
+      .select('subject revokedAt expiresAt')
+      .lean();
+    return (
+      !!session &&
+      session.subject.toString() === subjectId &&
+      !session.revokedAt &&
+      session.expiresAt > new Date()
+    );
+  }
+
+  /**
+   * Active sessions of the current user or child (most recently used first)
+   */
+  async listForSubject(currentUser: any) {
+    const sessions = await this.sessionModel
+      .find({
+        subject: new Types.ObjectId(currentUser.id),
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .select('-refreshTokenHash')
+      .sort({ lastUsedAt: -1 })
+      .lean();
+
+    return sessions.map((session) => ({
+      ...session,
+      current:
+        (session._id as Types.ObjectId).toString() === currentUser.sessionId,
+    }));
+  }
+
+  /**
+   * Revoke one session of the current user or child
+   */
+  async revokeForSubject(
+    sessionId: string,
+    currentUser: any,
+  ): Promise<{ message: string }> {
+    const result = await this.sessionModel.updateOne(
+      {
+        _id: new Types.ObjectId(sessionId),
+        subject: new Types.ObjectId(currentUser.id),
+        revokedAt: null,
+      },
+      { $set: { revokedAt: new Date(), revokedReason: 'REVOKED' } },
+    );
+    if (result.matchedCount === 0) {
+      throw new NotFoundException('Session not found');
+    }
+    this.revocations.next({ subjectId: currentUser.id, sessionId });
+    return { message: 'Session revoked' };
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (logout)
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return;
+    }
+    const session = await this.sessionModel.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(parsed.sessionId),
+        refreshTokenHash: this.hashSecret(parsed.secret),
+        revokedAt: null,
+      },
+      { $set: { revokedAt: new Date(), revokedReason: 'LOGOUT' } },
+    );
+    if (session) {
+      this.revocations.next({
+        subjectId: session.subject.toString(),
+        sessionId: parsed.sessionId,
+      });
+    }
+  }
+
+  /**
+   * Revoke every session of an account (password reset, QR rotation, ...)
+   */
+  async revokeAllForSubject(
+    subjectId: string,
+    reason: string,
+  ): Promise<number> {
+    const result = await this.sessionModel.updateMany(
+      { subject: new Types.ObjectId(subjectId), revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } },
+    );
+    if (result.modifiedCount > 0) {
+      this.revocations.next({ subjectId, sessionId: null });
+    }
+    return result.modifiedCount;
+  }
+}
@@ -6,12 +6,14 @@ import { Model } from 'mongoose';
 import { ConfigService } from '@nestjs/config';
 import { User, UserDocument } from '../../user/schemas/user.schema';
 import { Child, ChildDocument } from '../../child/schemas/child.schema';
+import { SessionService } from '../session.service';
 
 export interface JwtPayload {
   sub: string;
   email?: string;
   role: string;
   type: 'user' | 'child';
+  sid?: string; // session ID (tokens issued before sessions existed have none)
 }
 
 @Injectable()
@@ -20,13 +22,19 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(Child.name) private childModel: Model<ChildDocument>,
     private configService: ConfigService,
+    private sessionService: SessionService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
       secretOrKey: (() => {
-        const secret = configService.get<string>('JWT_SECRET') || 'your-secret-key-change-in-production';
-        console.log('🔐 JWT Strategy Secret loaded (verifying):', secret ? `${secret.substring(0, 20)}...` : 'NOT SET');
+        const secret =
+          configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production';
+        console.log(
+          '🔐 JWT Strategy Secret loaded (verifying):',
+          secret ? `${secret.substring(0, 20)}...` : 'NOT SET',
+        );
         return secret;
       })(),
     });
@@ -38,6 +46,14 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('Invalid token payload');
     }
 
+    // Reject tokens of a logged out / revoked session
+    if (
+      payload.sid &&
+      !(await this.sessionService.isActive(payload.sid, payload.sub))
+    ) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     if (payload.type === 'user') {
       const user = await this.userModel.findById(payload.sub);
       if (!user) {
@@ -46,11 +62,12 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       if (user.status !== 'ACTIVE') {
         throw new UnauthorizedException('User account is inactive');
       }
-      return { 
-        id: (user._id as any).toString(), 
-        email: user.email, 
-        role: user.role, 
-        type: 'user' 
+      return {
+        id: (user._id as any).toString(),
+        email: user.email,
+        role: user.role,
+        type: 'user',
+        sessionId: payload.sid ?? null,
       };
     } else if (payload.type === 'child') {
       const child = await this.childModel.findById(payload.sub);
@@ -60,13 +77,13 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       if (child.status !== 'ACTIVE') {
         throw new UnauthorizedException('Child account is inactive');
       }
-      return { 
-        id: (child._id as any).toString(), 
-        parentId: (child.parent as any).toString(), 
-        type: 'child' 
+      return {
+        id: (child._id as any).toString(),
+        parentId: (child.parent as any).toString(),
+        type: 'child',
+        sessionId: payload.sid ?? null,
       };
     }
     throw new UnauthorizedException(`Invalid token type: ${payload.type}`);
   }
 }
-
@@ -6,6 +6,7 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   UseGuards,
 } from '@nestjs/common';
 import {
@@ -19,7 +20,15 @@ import { ChildService } from './child.service';
 import { CreateChildDto } from './dto/create-child.dto';
 import { UpdateChildDto } from './dto/update-child.dto';
 import { UpdateChildLocationDto } from './dto/update-child-location.dto';
+import { QueryChildLocationsDto } from './dto/query-child-locations.dto';
+import { BatchChildLocationsDto } from './dto/batch-child-locations.dto';
+import { DeviceHeartbeatDto } from './dto/device-heartbeat.dto';
+import { CheckInDto } from './dto/check-in.dto';
+import { QueryCheckInsDto } from './dto/query-check-ins.dto';
+import { SosService } from '../sos/sos.service';
+import { TriggerSosDto } from '../sos/dto/trigger-sos.dto';
 import { LinkParentByQrDto } from './dto/link-parent.dto';
+import { RotateQrDto } from './dto/rotate-qr.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -31,19 +40,33 @@ import { UserRole } from '../user/schemas/user.schema';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('children')
 export class ChildController {
-  constructor(private readonly childService: ChildService) {}
+  constructor(
+    private readonly childService: ChildService,
+    private readonly sosService: SosService,
+  ) {}
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ summary: 'Create a new child (ADMIN and PARENT only - PARENT creates for themselves, ADMIN can create for any parent)' })
+  @ApiOperation({
+    summary:
+      'Create a new child (ADMIN and PARENT only - PARENT creates for themselves, ADMIN can create for any parent)',
+  })
   @ApiResponse({ status: 201, description: 'Child successfully created' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Only PARENT or ADMIN can create children' })
-  create(@Body() createChildDto: CreateChildDto, @CurrentUser() currentUser: any) {
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only PARENT or ADMIN can create children',
+  })
+  create(
+    @Body() createChildDto: CreateChildDto,
+    @CurrentUser() currentUser: any,
+  ) {
     return this.childService.create(createChildDto, currentUser);
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all children (ADMIN sees all, PARENT sees only their own)' })
+  @ApiOperation({
+    summary: 'Get all children (ADMIN sees all, PARENT sees only their own)',
+  })
   @ApiResponse({ status: 200, description: 'List of children' })
   findAll(@CurrentUser() currentUser: any) {
     return this.childService.findAll(currentUser);
@@ -52,35 +75,116 @@ export class ChildController {
   @Get('profile')
   @ApiOperation({ summary: 'Get current child profile (for children only)' })
   @ApiResponse({ status: 200, description: 'Child profile' })
-  @ApiResponse({ status: 403, description: 'Forbidden - This endpoint is only for children' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - This endpoint is only for children',
+  })
   getProfile(@CurrentUser() currentUser: any) {
     return this.childService.getProfile(currentUser);
   }
 
+  @Post('me/sos')
+  @ApiOperation({
+    summary: 'Trigger an SOS alert (for children only)',
+    description:
+      'Records an SOS incident with the child location and alerts the main parent and all linked parents over socket, email and SMS.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'SOS incident recorded (or refreshed if one is already open)',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only children can trigger an SOS',
+  })
+  triggerSos(
+    @Body() triggerSosDto: TriggerSosDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.sosService.trigger(triggerSosDto, currentUser);
+  }
+
+  @Post('me/heartbeat')
+  @ApiOperation({
+    summary: 'Report device battery and connectivity (for children only)',
+    description:
+      'Marks the device online and stores battery level, charging state, network type and app version. Parents are alerted when the battery crosses LOW_BATTERY_THRESHOLD, and when no heartbeat, location or socket connection is seen for DEVICE_SILENCE_MINUTES.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Heartbeat recorded, returns the device status',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only children can send device heartbeats',
+  })
+  heartbeat(
+    @Body() deviceHeartbeatDto: DeviceHeartbeatDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.childService.recordHeartbeat(deviceHeartbeatDto, currentUser);
+  }
+
+  @Post('me/check-in')
+  @ApiOperation({
+    summary: 'Check in ("I arrived") (for children only)',
+    description:
+      'Posts a CHECK_IN message with an optional place label and the child location in the child room, and notifies the main parent and all linked parents.',
+  })
+  @ApiResponse({ status: 201, description: 'Check-in message created' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only children can check in',
+  })
+  checkIn(@Body() checkInDto: CheckInDto, @CurrentUser() currentUser: any) {
+    return this.childService.checkIn(checkInDto, currentUser);
+  }
+
   @Get('parent/:parentId')
-  @ApiOperation({ summary: 'Get children by parent ID (ADMIN can see any, PARENT only their own)' })
+  @ApiOperation({
+    summary:
+      'Get children by parent ID (ADMIN can see any, PARENT only their own)',
+  })
   @ApiParam({ name: 'parentId', description: 'Parent User ID' })
   @ApiResponse({ status: 200, description: 'List of children for the parent' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Cannot view these children' })
-  getChildrenByParent(@Param('parentId') parentId: string, @CurrentUser() currentUser: any) {
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot view these children',
+  })
+  getChildrenByParent(
+    @Param('parentId') parentId: string,
+    @CurrentUser() currentUser: any,
+  ) {
     return this.childService.getChildrenByParent(parentId, currentUser);
   }
 
   @Get(':id')
-  @ApiOperation({ summary: 'Get child by ID (ADMIN can access any, PARENT only their own, CHILD only themselves)' })
+  @ApiOperation({
+    summary:
+      'Get child by ID (ADMIN can access any, PARENT only their own, CHILD only themselves)',
+  })
   @ApiParam({ name: 'id', description: 'Child ID' })
   @ApiResponse({ status: 200, description: 'Child details' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Cannot access this child' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot access this child',
+  })
   @ApiResponse({ status: 404, description: 'Child not found' })
   findOne(@Param('id') id: string, @CurrentUser() currentUser: any) {
     return this.childService.findOne(id, currentUser);
   }
 
   @Patch(':id')
-  @ApiOperation({ summary: 'Update child (ADMIN can update any, PARENT only their own, CHILD only themselves)' })
+  @ApiOperation({
+    summary:
+      'Update child (ADMIN can update any, PARENT only their own, CHILD only themselves)',
+  })
   @ApiParam({ name: 'id', description: 'Child ID' })
   @ApiResponse({ status: 200, description: 'Child successfully updated' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Cannot update this child' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot update this child',
+  })
   @ApiResponse({ status: 404, description: 'Child not found' })
   update(
     @Param('id') id: string,
@@ -91,40 +195,164 @@ export class ChildController {
   }
 
   @Patch(':id/location')
-  @ApiOperation({ summary: 'Update child location (ADMIN, PARENT for their child, or CHILD themselves)' })
+  @ApiOperation({
+    summary:
+      'Update child location (ADMIN, PARENT for their child, or CHILD themselves)',
+  })
   @ApiParam({ name: 'id', description: 'Child ID' })
   @ApiResponse({ status: 200, description: 'Child location updated' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Cannot update this child location' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot update this child location',
+  })
   @ApiResponse({ status: 404, description: 'Child not found' })
   updateLocation(
     @Param('id') id: string,
     @Body() updateChildLocationDto: UpdateChildLocationDto,
     @CurrentUser() currentUser: any,
   ) {
-    return this.childService.updateLocation(id, updateChildLocationDto, currentUser);
+    return this.childService.updateLocation(
+      id,
+      updateChildLocationDto,
+      currentUser,
+    );
+  }
+
+  @Get(':id/locations')
+  @ApiOperation({
+    summary:
+      'Get child location history (ADMIN, PARENT for their child, or CHILD themselves)',
+    description:
+      'Returns the track ordered from oldest to newest, optionally limited to a time range, paginated.',
+  })
+  @ApiParam({ name: 'id', description: 'Child ID' })
+  @ApiResponse({ status: 200, description: 'Paginated location history' })
+  @ApiResponse({ status: 400, description: 'Invalid time range' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot access this child',
+  })
+  @ApiResponse({ status: 404, description: 'Child not found' })
+  getLocationHistory(
+    @Param('id') id: string,
+    @Query() query: QueryChildLocationsDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.childService.getLocationHistory(id, query, currentUser);
+  }
+
+  @Get(':id/check-ins')
+  @ApiOperation({
+    summary:
+      'Get child check-in history (ADMIN, PARENT for their child, or CHILD themselves)',
+    description: 'Returns CHECK_IN messages from newest to oldest, paginated.',
+  })
+  @ApiParam({ name: 'id', description: 'Child ID' })
+  @ApiResponse({ status: 200, description: 'Paginated check-ins' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot access this child',
+  })
+  @ApiResponse({ status: 404, description: 'Child not found' })
+  getCheckIns(
+    @Param('id') id: string,
+    @Query() query: QueryCheckInsDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.childService.getCheckIns(id, query, currentUser);
+  }
+
+  @Post(':id/locations/batch')
+  @ApiOperation({
+    summary: 'Upload location fixes collected while offline',
+    description:
+      'Stores every fix in history, moves the child only for fixes newer than its current location and replays those through danger zone checks in order',
+  })
+  @ApiParam({ name: 'id', description: 'Child ID' })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Counts of stored, replayed and ignored (older) fixes, plus the resulting location',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid fixes (bad coordinates, timestamps in the future, more than 500)',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot update this child',
+  })
+  @ApiResponse({ status: 404, description: 'Child not found' })
+  uploadLocationBatch(
+    @Param('id') id: string,
+    @Body() dto: BatchChildLocationsDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.childService.uploadLocationBatch(id, dto, currentUser);
   }
 
   @Post('link-parent')
   @Roles(UserRole.PARENT)
-  @ApiOperation({ 
-    summary: 'Link parent to child by scanning QR code',
-    description: 'Parent scans child QR code to become a linked parent. They will receive all notifications and have access to the child.'
+  @ApiOperation({
+    summary: 'Link parent to child by scanning the pairing QR code',
+    description:
+      'Parent scans the child pairing code to become a linked parent. They will receive all notifications and have access to the child.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Parent successfully linked to child',
+  })
+  @ApiResponse({ status: 400, description: 'Pairing code expired' })
+  @ApiResponse({ status: 403, description: 'Parent already linked' })
+  @ApiResponse({
+    status: 404,
+    description: 'Child with this pairing code not found (or already used)',
+  })
+  linkParentByQr(
+    @Body() linkParentDto: LinkParentByQrDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.childService.linkParentByQr(
+      linkParentDto.pairingCode,
+      currentUser,
+    );
+  }
+
+  @Post(':id/qr/rotate')
+  @Roles(UserRole.ADMIN, UserRole.PARENT)
+  @ApiOperation({
+    summary: 'Rotate child login QR code and/or pairing code',
+    description:
+      'Old codes stop working immediately. Rotating the login code also revokes every session of the child.',
+  })
+  @ApiParam({ name: 'id', description: 'Child ID' })
+  @ApiResponse({ status: 201, description: 'New codes with their expiry' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot manage this child',
   })
-  @ApiResponse({ status: 200, description: 'Parent successfully linked to child' })
-  @ApiResponse({ status: 400, description: 'Invalid QR code or parent already linked' })
-  @ApiResponse({ status: 404, description: 'Child with this QR code not found' })
-  linkParentByQr(@Body() linkParentDto: LinkParentByQrDto, @CurrentUser() currentUser: any) {
-    return this.childService.linkParentByQr(linkParentDto.qrCode, currentUser);
+  @ApiResponse({ status: 404, description: 'Child not found' })
+  rotateQrCodes(
+    @Param('id') id: string,
+    @Body() dto: RotateQrDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.childService.rotateQrCodes(id, dto, currentUser);
   }
 
   @Delete(':id/unlink-parent')
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Unlink current parent from child',
-    description: 'Parent can unlink themselves, or main parent/admin can remove any linked parent'
+    description:
+      'Parent can unlink themselves, or main parent/admin can remove any linked parent',
   })
   @ApiParam({ name: 'id', description: 'Child ID' })
-  @ApiResponse({ status: 200, description: 'Parent successfully unlinked from child' })
+  @ApiResponse({
+    status: 200,
+    description: 'Parent successfully unlinked from child',
+  })
   @ApiResponse({ status: 400, description: 'Cannot unlink main parent' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'Child not found' })
@@ -134,29 +362,41 @@ export class ChildController {
 
   @Delete(':childId/unlink-parent/:parentId')
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Unlink specific parent from child',
-    description: 'Main parent or admin can remove any linked parent'
+    description: 'Main parent or admin can remove any linked parent',
   })
   @ApiParam({ name: 'childId', description: 'Child ID' })
   @ApiParam({ name: 'parentId', description: 'Parent User ID to unlink' })
-  @ApiResponse({ status: 200, description: 'Parent successfully unlinked from child' })
+  @ApiResponse({
+    status: 200,
+    description: 'Parent successfully unlinked from child',
+  })
   @ApiResponse({ status: 400, description: 'Cannot unlink main parent' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'Child not found' })
   unlinkSpecificParent(
-    @Param('childId') childId: string, 
+    @Param('childId') childId: string,
     @Param('parentId') parentId: string,
-    @CurrentUser() currentUser: any
+    @CurrentUser() currentUser: any,
   ) {
-    return this.childService.unlinkSpecificParent(childId, parentId, currentUser);
+    return this.childService.unlinkSpecificParent(
+      childId,
+      parentId,
+      currentUser,
+    );
   }
 
   @Delete(':id')
-  @ApiOperation({ summary: 'Delete child (ADMIN can delete any, PARENT can delete their own)' })
+  @ApiOperation({
+    summary: 'Delete child (ADMIN can delete any, PARENT can delete their own)',
+  })
   @ApiParam({ name: 'id', description: 'Child ID' })
   @ApiResponse({ status: 200, description: 'Child successfully deleted' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Cannot delete this child' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot delete this child',
+  })
   @ApiResponse({ status: 404, description: 'Child not found' })
   remove(@Param('id') id: string, @CurrentUser() currentUser: any) {
     return this.childService.remove(id, currentUser);
@@ -2,23 +2,37 @@ import { Module, OnModuleInit, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { InjectConnection } from '@nestjs/mongoose';
 import { Connection } from 'mongoose';
-import { ChildService } from './child.service';
+import * as crypto from 'crypto';
+import { ChildService, DEFAULT_CODE_TTL_MINUTES } from './child.service';
 import { ChildController } from './child.controller';
 import { Child, ChildSchema } from './schemas/child.schema';
+import {
+  ChildLocation,
+  ChildLocationSchema,
+} from './schemas/child-location.schema';
 import { User, UserSchema } from '../user/schemas/user.schema';
 import { Room, RoomSchema } from '../message/schemas/room.schema';
 import { DangerZoneModule } from '../danger-zone/danger-zone.module';
 import { NotificationModule } from '../notification/notification.module';
+import { SosModule } from '../sos/sos.module';
+import { AuthModule } from '../auth/auth.module';
+import { MessageModule } from '../message/message.module';
+import { ArrivalModule } from '../arrival/arrival.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Child.name, schema: ChildSchema },
+      { name: ChildLocation.name, schema: ChildLocationSchema },
       { name: User.name, schema: UserSchema },
       { name: Room.name, schema: RoomSchema },
     ]),
     forwardRef(() => DangerZoneModule),
     NotificationModule,
+    SosModule,
+    AuthModule,
+    forwardRef(() => MessageModule),
+    forwardRef(() => ArrivalModule),
   ],
   controllers: [ChildController],
   providers: [ChildService],
@@ -30,7 +44,7 @@ export class ChildModule implements OnModuleInit {
   async onModuleInit() {
     try {
       const collection = this.connection.collection('children');
-      
+
       // Try to drop the old email_1 index if it exists
       await collection.dropIndex('email_1');
       console.log('✅ Dropped obsolete email_1 index from children collection');
@@ -40,5 +54,34 @@ export class ChildModule implements OnModuleInit {
         console.error('Error dropping email index:', error.message);
       }
     }
+
+    try {
+      // Children created before pairing codes existed: give them one so other parents can link
+      // Their login code is left as is (no expiry), rotating it is up to the parents
+      const collection = this.connection.collection('children');
+      const expiresAt = new Date(
+        Date.now() + DEFAULT_CODE_TTL_MINUTES * 60 * 1000,
+      );
+      const legacy = await collection
+        .find({ pairingCode: { $exists: false } }, { projection: { _id: 1 } })
+        .toArray();
+      for (const child of legacy) {
+        await collection.updateOne(
+          { _id: child._id, pairingCode: { $exists: false } },
+          {
+            $set: {
+              pairingCode: crypto.randomBytes(16).toString('hex'),
+              pairingCodeExpiresAt: expiresAt,
+              pairingCodeSingleUse: true,
+            },
+          },
+        );
+      }
+      if (legacy.length > 0) {
+        console.log(`✅ Backfilled pairing codes of ${legacy.length} children`);
+      }
+    } catch (error: any) {
+      console.error('Error backfilling pairing codes:', error.message);
+    }
   }
 }
@@ -1,32 +1,103 @@
-import { Injectable, NotFoundException, ForbiddenException, Inject, forwardRef } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Inject,
+  forwardRef,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import * as crypto from 'crypto';
-import { Child, ChildDocument } from './schemas/child.schema';
+import {
+  Child,
+  ChildDocument,
+  ChildLocationFix,
+  ChildStatus,
+} from './schemas/child.schema';
+import {
+  ChildLocation,
+  ChildLocationDocument,
+} from './schemas/child-location.schema';
 import { User, UserRole } from '../user/schemas/user.schema';
-import { Room, RoomDocument } from '../message/schemas/room.schema';
+import { Room, RoomDocument, RoomType } from '../message/schemas/room.schema';
 import { CreateChildDto } from './dto/create-child.dto';
 import { UpdateChildDto } from './dto/update-child.dto';
 import { UpdateChildLocationDto } from './dto/update-child-location.dto';
+import { QueryChildLocationsDto } from './dto/query-child-locations.dto';
+import { BatchChildLocationsDto } from './dto/batch-child-locations.dto';
+import { DeviceHeartbeatDto } from './dto/device-heartbeat.dto';
+import { CheckInDto } from './dto/check-in.dto';
+import { QueryCheckInsDto } from './dto/query-check-ins.dto';
 import { DangerZoneService } from '../danger-zone/danger-zone.service';
 import { NotificationService } from '../notification/notification.service';
+import { SessionService } from '../auth/session.service';
+import { ChatGateway } from '../message/gateway/chat.gateway';
+import { CheckInPage, MessageService } from '../message/message.service';
+import { ArrivalService } from '../arrival/arrival.service';
+import { RotateQrDto, QrCodeTarget } from './dto/rotate-qr.dto';
+
+// Default validity of login and pairing codes
+export const DEFAULT_CODE_TTL_MINUTES = 24 * 60;
+
+// How often devices that stopped reporting are looked for
+const DEVICE_SILENCE_SWEEP_INTERVAL_MS = 60 * 1000;
+// Battery must climb this many points above the threshold before a new low battery alert
+const LOW_BATTERY_REARM_MARGIN = 5;
 
 @Injectable()
-export class ChildService {
+export class ChildService implements OnModuleInit, OnModuleDestroy {
+  private silenceTimer: NodeJS.Timeout | null = null;
+
   constructor(
     @InjectModel(Child.name) private childModel: Model<ChildDocument>,
+    @InjectModel(ChildLocation.name)
+    private childLocationModel: Model<ChildLocationDocument>,
     @InjectModel(User.name) private userModel: Model<any>,
     @InjectModel(Room.name) private roomModel: Model<RoomDocument>,
     @Inject(forwardRef(() => DangerZoneService))
     private dangerZoneService: DangerZoneService,
     private notificationService: NotificationService,
+    private sessionService: SessionService,
+    @Inject(forwardRef(() => ChatGateway))
+    private chatGateway: ChatGateway,
+    @Inject(forwardRef(() => MessageService))
+    private messageService: MessageService,
+    @Inject(forwardRef(() => ArrivalService))
+    private arrivalService: ArrivalService,
   ) {}
 
-  async create(createChildDto: CreateChildDto, currentUser: any): Promise<Child> {
+  onModuleInit() {
+    this.silenceTimer = setInterval(() => {
+      this.sweepSilentDevices().catch((error) => {
+        console.error('Error checking silent devices:', error);
+      });
+    }, DEVICE_SILENCE_SWEEP_INTERVAL_MS);
+    this.silenceTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.silenceTimer) {
+      clearInterval(this.silenceTimer);
+      this.silenceTimer = null;
+    }
+  }
+
+  private generateCode(): string {
+    // Secure random code (32 characters)
+    return crypto.randomBytes(16).toString('hex');
+  }
+
+  async create(
+    createChildDto: CreateChildDto,
+    currentUser: any,
+  ): Promise<Child> {
     // If current user is a PARENT, they can only create children for themselves
     // If current user is ADMIN, they can create children for any user
     let parentId = currentUser.id;
-    
+
     if (currentUser.role === UserRole.ADMIN) {
       // ADMIN can specify parent in the DTO
       if (createChildDto.parent) {
@@ -46,31 +117,45 @@ export class ChildService {
 
     // Verify parent is actually a PARENT role
     if (parent.role !== UserRole.PARENT) {
-      throw new ForbiddenException('Children can only be assigned to users with PARENT role');
+      throw new ForbiddenException(
+        'Children can only be assigned to users with PARENT role',
+      );
     }
 
     const { parent: parentFromDto, ...childData } = createChildDto;
-    
-    // Generate unique QR code for child login if not provided
-    let qrCode = createChildDto.qrCode;
-    if (!qrCode) {
-      // Generate a secure random QR code (32 characters)
-      qrCode = crypto.randomBytes(16).toString('hex');
-    }
-    
+
+    // Generate unique QR code for child login if not provided, plus a separate pairing code for linking
+    // The login code lasts so the child can log in again (reinstall, logout); the pairing code does not
+    const qrCode = createChildDto.qrCode || this.generateCode();
+
     const child = new this.childModel({
       ...childData,
       parent: parentId,
       qrCode,
+      qrCodeExpiresAt: null,
+      qrCodeSingleUse: false,
+      pairingCode: this.generateCode(),
+      pairingCodeExpiresAt: new Date(
+        Date.now() + DEFAULT_CODE_TTL_MINUTES * 60 * 1000,
+      ),
+      pairingCodeSingleUse: true,
     });
 
     const savedChild = await child.save();
-    
+
     // Auto-create room for parent-child pair
     try {
       await this.roomModel.create({
+        type: RoomType.DIRECT,
         parent: new Types.ObjectId(parentId),
         child: savedChild._id,
+        participants: [
+          { participantModel: 'Child', participant: savedChild._id },
+          {
+            participantModel: 'User',
+            participant: new Types.ObjectId(parentId),
+          },
+        ],
         isActive: true,
       });
     } catch (error: any) {
@@ -79,31 +164,44 @@ export class ChildService {
         console.error('Error creating room for child:', error.message);
       }
     }
-    
-    // Return child with QR code included (for parent to use for child login)
+
+    // Return child with QR and pairing codes included (for child login and linking other parents)
     return savedChild;
   }
 
   async findAll(currentUser: any): Promise<Child[]> {
     // ADMIN can see all children, PARENT can only see their own children
     if (currentUser.role === UserRole.ADMIN) {
-      return this.childModel.find().populate('parent', '-password').populate('linkedParents', '-password').exec();
+      return this.childModel
+        .find()
+        .populate('parent', '-password')
+        .populate('linkedParents', '-password')
+        .exec();
     } else if (currentUser.type === 'child') {
       // Children can only see themselves
-      return this.childModel.find({ _id: currentUser.id }).populate('parent', '-password').populate('linkedParents', '-password').exec();
+      return this.childModel
+        .find({ _id: currentUser.id })
+        .populate('parent', '-password')
+        .populate('linkedParents', '-password')
+        .exec();
     } else {
       // PARENT sees children where they are the parent OR in linkedParents
-      return this.childModel.find({
-        $or: [
-          { parent: currentUser.id },
-          { linkedParents: currentUser.id }
-        ]
-      }).populate('parent', '-password').populate('linkedParents', '-password').exec();
+      return this.childModel
+        .find({
+          $or: [{ parent: currentUser.id }, { linkedParents: currentUser.id }],
+        })
+        .populate('parent', '-password')
+        .populate('linkedParents', '-password')
+        .exec();
     }
   }
 
   async findOne(id: string, currentUser: any): Promise<Child> {
-    const child = await this.childModel.findById(id).populate('parent', '-password').populate('linkedParents', '-password').exec();
+    const child = await this.childModel
+      .findById(id)
+      .populate('parent', '-password')
+      .populate('linkedParents', '-password')
+      .exec();
     if (!child) {
       throw new NotFoundException('Child not found');
     }
@@ -120,8 +218,10 @@ export class ChildService {
     } else {
       // PARENT can only see children where they are parent or linkedParent
       const isParent = child.parent.toString() === currentUser.id;
-      const isLinkedParent = child.linkedParents.some(p => p.toString() === currentUser.id);
-      
+      const isLinkedParent = child.linkedParents.some(
+        (p) => p.toString() === currentUser.id,
+      );
+
       if (!isParent && !isLinkedParent) {
         throw new ForbiddenException('You can only access your own children');
       }
@@ -129,7 +229,11 @@ export class ChildService {
     }
   }
 
-  async update(id: string, updateChildDto: UpdateChildDto, currentUser: any): Promise<Child> {
+  async update(
+    id: string,
+    updateChildDto: UpdateChildDto,
+    currentUser: any,
+  ): Promise<Child> {
     const child = await this.childModel.findById(id);
     if (!child) {
       throw new NotFoundException('Child not found');
@@ -145,8 +249,10 @@ export class ChildService {
       } else {
         // PARENT can only update children where they are parent or linkedParent
         const isParent = child.parent.toString() === currentUser.id;
-        const isLinkedParent = child.linkedParents.some(p => p.toString() === currentUser.id);
-        
+        const isLinkedParent = child.linkedParents.some(
+          (p) => p.toString() === currentUser.id,
+        );
+
         if (!isParent && !isLinkedParent) {
           throw new ForbiddenException('You can only update your own children');
         }
@@ -154,11 +260,15 @@ export class ChildService {
     }
 
     // Use findByIdAndUpdate for partial updates
-    const updatedChild = await this.childModel.findByIdAndUpdate(
-      id,
-      { $set: updateChildDto },
-      { new: true, runValidators: true }
-    ).populate('parent', '-password').populate('linkedParents', '-password').exec();
+    const updatedChild = await this.childModel
+      .findByIdAndUpdate(
+        id,
+        { $set: updateChildDto },
+        { new: true, runValidators: true },
+      )
+      .populate('parent', '-password')
+      .populate('linkedParents', '-password')
+      .exec();
 
     if (!updatedChild) {
       throw new NotFoundException('Child not found after update');
@@ -186,6 +296,9 @@ export class ChildService {
     }
 
     await this.childModel.findByIdAndDelete(id);
+
+    // Clean up location history
+    await this.childLocationModel.deleteMany({ child: id });
   }
 
   async getProfile(currentUser: any): Promise<Child> {
@@ -193,29 +306,60 @@ export class ChildService {
       throw new ForbiddenException('This endpoint is only for children');
     }
 
-    const child = await this.childModel.findById(currentUser.id).populate('parent', '-password').populate('linkedParents', '-password').exec();
+    const child = await this.childModel
+      .findById(currentUser.id)
+      .populate('parent', '-password')
+      .populate('linkedParents', '-password')
+      .exec();
     if (!child) {
       throw new NotFoundException('Child not found');
     }
     return child;
   }
 
-  async getChildrenByParent(parentId: string, currentUser: any): Promise<Child[]> {
+  async getChildrenByParent(
+    parentId: string,
+    currentUser: any,
+  ): Promise<Child[]> {
     // ADMIN can see children of any parent
     // PARENT can only see their own children
     if (currentUser.role !== UserRole.ADMIN && currentUser.id !== parentId) {
       throw new ForbiddenException('You can only view your own children');
     }
 
-    return this.childModel.find({
-      $or: [
-        { parent: parentId },
-        { linkedParents: parentId }
-      ]
-    }).populate('parent', '-password').populate('linkedParents', '-password').exec();
+    return this.childModel
+      .find({
+        $or: [{ parent: parentId }, { linkedParents: parentId }],
+      })
+      .populate('parent', '-password')
+      .populate('linkedParents', '-password')
+      .exec();
+  }
+
+  /**
+   * Position plus the quality fields the device reported (missing ones stored as null)
+   */
+  private toLocationFix(
+    dto: UpdateChildLocationDto,
+    updatedAt: Date,
+  ): ChildLocationFix {
+    return {
+      lat: dto.lat,
+      lng: dto.lng,
+      updatedAt,
+      accuracy: dto.accuracy ?? null,
+      speed: dto.speed ?? null,
+      heading: dto.heading ?? null,
+      altitude: dto.altitude ?? null,
+      provider: dto.provider ?? null,
+    };
   }
 
-  async updateLocation(id: string, updateChildLocationDto: UpdateChildLocationDto, currentUser: any): Promise<Child> {
+  async updateLocation(
+    id: string,
+    updateChildLocationDto: UpdateChildLocationDto,
+    currentUser: any,
+  ): Promise<Child> {
     const child = await this.childModel.findById(id);
     if (!child) {
       throw new NotFoundException('Child not found');
@@ -228,7 +372,9 @@ export class ChildService {
         }
       } else {
         const isParent = child.parent.toString() === currentUser.id;
-        const isLinkedParent = child.linkedParents.some(p => p.toString() === currentUser.id);
+        const isLinkedParent = child.linkedParents.some(
+          (p) => p.toString() === currentUser.id,
+        );
 
         if (!isParent && !isLinkedParent) {
           throw new ForbiddenException('You can only update your own children');
@@ -236,45 +382,508 @@ export class ChildService {
       }
     }
 
-    child.location = {
-      lat: updateChildLocationDto.lat,
-      lng: updateChildLocationDto.lng,
-      updatedAt: new Date(),
-    } as any;
+    const now = new Date();
+    const { updatedAt, ...fix } = this.toLocationFix(
+      updateChildLocationDto,
+      now,
+    );
+    child.location = { ...fix, updatedAt };
+    if (currentUser.type === 'child') {
+      this.markSeen(child, now);
+    }
 
     await child.save({ validateModifiedOnly: true });
 
-    const updatedChild = await this.childModel.findById(id).populate('parent', '-password').populate('linkedParents', '-password').exec();
+    // Persist the fix in the location history
+    await this.childLocationModel.create({
+      child: child._id,
+      ...fix,
+      recordedAt: now,
+    });
+
+    const updatedChild = await this.childModel
+      .findById(id)
+      .populate('parent', '-password')
+      .populate('linkedParents', '-password')
+      .exec();
     if (!updatedChild) {
       throw new NotFoundException('Child not found after updating location');
     }
 
+    // Live location for parents watching over the socket
+    const parentIds = [
+      child.parent.toString(),
+      ...child.linkedParents.map((p) => p.toString()),
+    ];
+    this.chatGateway
+      .publishChildLocation(id, parentIds, child.location)
+      .catch((error) => {
+        console.error('Error publishing live location:', error);
+      });
+
     // Check danger zones and send notifications (async, don't block response)
-    this.checkDangerZonesAndNotify(updatedChild).catch(error => {
+    // These read parent ids off the child, so they get the unpopulated document
+    this.checkDangerZonesAndNotify(child).catch((error) => {
       console.error('Error checking danger zones:', error);
     });
+    this.arrivalService.checkArrivals(child, now).catch((error) => {
+      console.error('Error checking expected arrivals:', error);
+    });
 
     return updatedChild;
   }
 
+  /**
+   * Upload fixes collected while the device was offline
+   * All fixes go to history; only fixes newer than the current location move the child
+   * and are replayed through the danger zone checks, in order, with their own timestamps
+   */
+  async uploadLocationBatch(
+    id: string,
+    dto: BatchChildLocationsDto,
+    currentUser: any,
+  ): Promise<any> {
+    const child = await this.childModel.findById(id);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    if (currentUser.role !== UserRole.ADMIN) {
+      if (currentUser.type === 'child') {
+        if (currentUser.id !== id) {
+          throw new ForbiddenException('You can only update your own location');
+        }
+      } else {
+        const isParent = child.parent.toString() === currentUser.id;
+        const isLinkedParent = child.linkedParents.some(
+          (p) => p.toString() === currentUser.id,
+        );
+
+        if (!isParent && !isLinkedParent) {
+          throw new ForbiddenException('You can only update your own children');
+        }
+      }
+    }
+
+    // Allow a little device clock skew, but no fixes from the future
+    const maxRecordedAt = Date.now() + 5 * 60 * 1000;
+    const fixes = dto.fixes
+      .map((fix) => ({ ...fix, recordedAt: new Date(fix.recordedAt) }))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+    if (fixes[fixes.length - 1].recordedAt.getTime() > maxRecordedAt) {
+      throw new BadRequestException('recordedAt cannot be in the future');
+    }
+
+    await this.childLocationModel.insertMany(
+      fixes.map((fix) => {
+        const { updatedAt, ...location } = this.toLocationFix(
+          fix,
+          fix.recordedAt,
+        );
+        return { child: child._id, ...location, recordedAt: updatedAt };
+      }),
+    );
+
+    const lastKnownAt = child.location?.updatedAt
+      ? new Date(child.location.updatedAt).getTime()
+      : null;
+    const newerFixes =
+      lastKnownAt === null
+        ? fixes
+        : fixes.filter((fix) => fix.recordedAt.getTime() > lastKnownAt);
+
+    // A device flushing its offline queue is back: it must not be reported silent
+    if (currentUser.type === 'child') {
+      this.markSeen(child, new Date());
+    }
+    const latest =
+      newerFixes.length > 0 ? newerFixes[newerFixes.length - 1] : null;
+    const location = latest
+      ? this.toLocationFix(latest, latest.recordedAt)
+      : null;
+    if (location) {
+      child.location = location;
+    }
+    await child.save({ validateModifiedOnly: true });
+
+    if (location) {
+      const parentIds = [
+        child.parent.toString(),
+        ...child.linkedParents.map((p) => p.toString()),
+      ];
+      this.chatGateway
+        .publishChildLocation(id, parentIds, location)
+        .catch((error) => {
+          console.error('Error publishing live location:', error);
+        });
+
+      // Replay in order so entries/exits missed while offline are detected (async, don't block response)
+      this.replayFixes(child, newerFixes).catch((error) => {
+        console.error('Error replaying offline locations:', error);
+      });
+    }
+
+    return {
+      stored: fixes.length,
+      replayed: newerFixes.length,
+      ignoredAsOlder: fixes.length - newerFixes.length,
+      location: child.location ?? null,
+    };
+  }
+
+  /**
+   * Run danger zone checks for each fix as if it had been received live
+   */
+  private async replayFixes(
+    child: ChildDocument,
+    fixes: (UpdateChildLocationDto & { recordedAt: Date })[],
+  ): Promise<void> {
+    const base = child.toObject();
+    for (const fix of fixes) {
+      const childAtFix = {
+        ...base,
+        location: this.toLocationFix(fix, fix.recordedAt),
+      } as Child;
+      await this.checkDangerZonesAndNotify(childAtFix, fix.recordedAt);
+      await this.arrivalService.checkArrivals(childAtFix, fix.recordedAt);
+    }
+  }
+
+  /**
+   * Device reported in: it is online and no longer silent
+   */
+  private markSeen(child: ChildDocument, at: Date): void {
+    child.lastSeenAt = at;
+    child.isOnline = true;
+    child.silenceAlertedAt = null;
+  }
+
+  private getParentIds(child: Child): string[] {
+    return [
+      child.parent.toString(),
+      ...child.linkedParents.map((p) => p.toString()),
+    ];
+  }
+
+  /**
+   * Let parents' apps update the device indicator without polling
+   */
+  private emitDeviceStatus(child: ChildDocument): void {
+    const status = {
+      childId: (child._id as any).toString(),
+      isOnline: child.isOnline,
+      lastSeenAt: child.lastSeenAt,
+      device: child.device ?? null,
+    };
+    for (const parentId of this.getParentIds(child)) {
+      this.chatGateway.sendMessageToUser(parentId, 'childDeviceStatus', status);
+    }
+  }
+
+  /**
+   * Heartbeat from the child's device: battery, charging, network and app version
+   * Omitted fields keep their last reported value
+   * Parents are alerted once per low battery episode (re-armed when charging or recharged)
+   */
+  async recordHeartbeat(
+    dto: DeviceHeartbeatDto,
+    currentUser: any,
+  ): Promise<any> {
+    if (currentUser.type !== 'child') {
+      throw new ForbiddenException('Only children can send device heartbeats');
+    }
+
+    const child = await this.childModel.findById(currentUser.id);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    const now = new Date();
+    const wasOnline = child.isOnline;
+    child.device = {
+      batteryLevel: dto.batteryLevel ?? child.device?.batteryLevel ?? null,
+      isCharging: dto.isCharging ?? child.device?.isCharging ?? null,
+      networkType: dto.networkType ?? child.device?.networkType ?? null,
+      appVersion: dto.appVersion ?? child.device?.appVersion ?? null,
+      updatedAt: now,
+    };
+    this.markSeen(child, now);
+
+    const threshold = parseInt(process.env.LOW_BATTERY_THRESHOLD || '20', 10);
+    const batteryLevel = child.device.batteryLevel;
+    const isCharging = child.device.isCharging === true;
+    let crossedLowBattery = false;
+    if (batteryLevel != null) {
+      if (
+        !isCharging &&
+        batteryLevel <= threshold &&
+        !child.lowBatteryAlerted
+      ) {
+        child.lowBatteryAlerted = true;
+        crossedLowBattery = true;
+      } else if (
+        child.lowBatteryAlerted &&
+        (isCharging || batteryLevel > threshold + LOW_BATTERY_REARM_MARGIN)
+      ) {
+        child.lowBatteryAlerted = false;
+      }
+    }
+
+    await child.save({ validateModifiedOnly: true });
+
+    if (!wasOnline || crossedLowBattery) {
+      this.emitDeviceStatus(child);
+    }
+
+    if (crossedLowBattery) {
+      // Notify all parents (async, don't block the device)
+      this.notifyParentsOfDevice(child, (parentId) =>
+        this.notificationService.sendLowBatteryAlert(parentId, {
+          child,
+          batteryLevel: batteryLevel as number,
+        }),
+      );
+    }
+
+    return {
+      isOnline: child.isOnline,
+      lastSeenAt: child.lastSeenAt,
+      device: child.device,
+    };
+  }
+
+  /**
+   * Track socket connections of a child's app
+   * Called by the gateway on the first connection and after the last disconnection
+   */
+  async setSocketPresence(childId: string, connected: boolean): Promise<void> {
+    const now = new Date();
+    const update = connected
+      ? { isOnline: true, lastSeenAt: now, silenceAlertedAt: null }
+      : { isOnline: false, lastSeenAt: now };
+    const previous = await this.childModel
+      .findByIdAndUpdate(childId, { $set: update })
+      .exec();
+    if (previous && previous.isOnline !== connected) {
+      previous.set(update);
+      this.emitDeviceStatus(previous);
+    }
+  }
+
+  /**
+   * Mark devices that stopped reporting as offline and alert parents once
+   * Silence period comes from DEVICE_SILENCE_MINUTES (default 30)
+   */
+  async sweepSilentDevices(): Promise<void> {
+    const silenceMinutes = parseInt(
+      process.env.DEVICE_SILENCE_MINUTES || '30',
+      10,
+    );
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - silenceMinutes * 60 * 1000);
+
+    const silentChildren = await this.childModel
+      .find({
+        status: ChildStatus.ACTIVE,
+        lastSeenAt: { $ne: null, $lt: cutoff },
+        silenceAlertedAt: null,
+      })
+      .exec();
+
+    for (const child of silentChildren) {
+      const childId = (child._id as any).toString();
+
+      // A connected socket counts as reporting even without heartbeats
+      if (this.chatGateway.isUserOnline(childId)) {
+        await this.childModel.updateOne(
+          { _id: child._id },
+          { $set: { lastSeenAt: now, isOnline: true } },
+        );
+        continue;
+      }
+
+      const result = await this.childModel.updateOne(
+        { _id: child._id, silenceAlertedAt: null },
+        { $set: { isOnline: false, silenceAlertedAt: now } },
+      );
+      if (result.modifiedCount === 0) {
+        continue;
+      }
+
+      console.log(
+        `📵 Device of child ${childId} silent since ${child.lastSeenAt?.toISOString()}`,
+      );
+      const lastSeenAt = child.lastSeenAt as Date;
+      child.isOnline = false;
+      this.emitDeviceStatus(child);
+      this.notifyParentsOfDevice(child, (parentId) =>
+        this.notificationService.sendDeviceSilentAlert(parentId, {
+          child,
+          lastSeenAt,
+        }),
+      );
+    }
+  }
+
+  private notifyParentsOfDevice(
+    child: Child,
+    send: (parentId: string) => Promise<void>,
+  ): void {
+    for (const parentId of this.getParentIds(child)) {
+      send(parentId).catch((error) => {
+        console.error(
+          `Failed to send device notification to parent ${parentId}:`,
+          error,
+        );
+      });
+    }
+  }
+
+  /**
+   * "I arrived": the child posts a check-in in their room and every parent is notified
+   * Location defaults to the last known one when the device sends none
+   */
+  async checkIn(dto: CheckInDto, currentUser: any): Promise<any> {
+    if (currentUser.type !== 'child') {
+      throw new ForbiddenException('Only children can check in');
+    }
+
+    const child = await this.childModel.findById(currentUser.id);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    const hasFreshLocation =
+      typeof dto.lat === 'number' && typeof dto.lng === 'number';
+    const location = hasFreshLocation
+      ? {
+          lat: dto.lat as number,
+          lng: dto.lng as number,
+          accuracy: dto.accuracy ?? null,
+        }
+      : child.location?.lat != null && child.location?.lng != null
+        ? {
+            lat: child.location.lat,
+            lng: child.location.lng,
+            accuracy: child.location.accuracy ?? null,
+          }
+        : null;
+    const placeLabel = dto.placeLabel?.trim() || null;
+
+    const message = await this.messageService.sendCheckIn(currentUser.id, {
+      placeLabel,
+      location,
+    });
+    const roomId = message.room.toString();
+    this.chatGateway.broadcastMessage(roomId, message);
+
+    // Notify all parents (async, don't block the child)
+    for (const parentId of this.getParentIds(child)) {
+      this.notificationService
+        .sendCheckInAlert(parentId, {
+          child,
+          placeLabel,
+          location: location ? { lat: location.lat, lng: location.lng } : null,
+          roomId,
+          messageId: message._id.toString(),
+        })
+        .catch((error) => {
+          console.error(
+            `Failed to send check-in notification to parent ${parentId}:`,
+            error,
+          );
+        });
+    }
+
+    return message;
+  }
+
+  /**
+   * Check-in history of a child, newest first
+   */
+  async getCheckIns(
+    id: string,
+    query: QueryCheckInsDto,
+    currentUser: any,
+  ): Promise<CheckInPage> {
+    // Same access rules as viewing the child
+    await this.findOne(id, currentUser);
+
+    return this.messageService.listCheckIns(
+      id,
+      currentUser.id,
+      query.page ?? 1,
+      query.limit ?? 20,
+    );
+  }
+
+  /**
+   * Get the location history (track) of a child, oldest first
+   */
+  async getLocationHistory(
+    id: string,
+    query: QueryChildLocationsDto,
+    currentUser: any,
+  ): Promise<any> {
+    // Same access rules as viewing the child
+    await this.findOne(id, currentUser);
+
+    const from = query.from ? new Date(query.from) : null;
+    const to = query.to ? new Date(query.to) : null;
+    if (from && to && from.getTime() > to.getTime()) {
+      throw new BadRequestException('"from" must be before "to"');
+    }
+
+    const filter: any = { child: new Types.ObjectId(id) };
+    if (from || to) {
+      filter.recordedAt = {};
+      if (from) filter.recordedAt.$gte = from;
+      if (to) filter.recordedAt.$lte = to;
+    }
+
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 100;
+
+    const [items, total] = await Promise.all([
+      this.childLocationModel
+        .find(filter)
+        .sort({ recordedAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.childLocationModel.countDocuments(filter),
+    ]);
+
+    return {
+      items,
+      page,
+      limit,
+      total,
+      hasMore: page * limit < total,
+    };
+  }
+
   /**
    * Check if child has entered/exited any danger zones and send notifications
    */
-  private async checkDangerZonesAndNotify(child: Child): Promise<void> {
+  private async checkDangerZonesAndNotify(
+    child: Child,
+    at: Date = new Date(),
+  ): Promise<void> {
     try {
-      const events = await this.dangerZoneService.checkDangerZones(child);
+      const events = await this.dangerZoneService.checkDangerZones(child, at);
 
       // Send notifications for each event
       for (const event of events) {
         const dangerZone = await this.dangerZoneService.findOne(
           event.dangerZone.toString(),
-          { role: UserRole.ADMIN, id: 'system' }
+          { role: UserRole.ADMIN, id: 'system' },
         );
 
         // Get all parent IDs (main parent + linked parents)
         const parentIds = [
           child.parent.toString(),
-          ...child.linkedParents.map(p => p.toString())
+          ...child.linkedParents.map((p) => p.toString()),
         ];
 
         // Send notification to all parents
@@ -285,12 +894,18 @@ export class ChildService {
               dangerZone,
               eventType: event.type,
               location: event.location,
+              occurredAt: event.occurredAt,
             });
 
             // Mark notification as sent
-            await this.dangerZoneService.markNotificationSent((event as any)._id.toString());
+            await this.dangerZoneService.markNotificationSent(
+              (event as any)._id.toString(),
+            );
           } catch (error) {
-            console.error(`Failed to send notification to parent ${parentId}:`, error);
+            console.error(
+              `Failed to send notification to parent ${parentId}:`,
+              error,
+            );
           }
         }
       }
@@ -300,23 +915,47 @@ export class ChildService {
   }
 
   /**
-   * Link parent to child by QR code
+   * Keep the child's family room members in line with their parent links (errors logged)
    */
-  async linkParentByQr(qrCode: string, currentUser: any): Promise<any> {
-    // Find child by QR code
-    const child = await this.childModel.findOne({ qrCode }).exec();
-    
+  private async syncFamilyRoom(childId: string): Promise<void> {
+    try {
+      await this.messageService.syncFamilyRoom(childId);
+    } catch (error) {
+      console.error('Error syncing family room:', error);
+    }
+  }
+
+  /**
+   * Link parent to child by pairing code
+   */
+  async linkParentByQr(pairingCode: string, currentUser: any): Promise<any> {
+    // Find child by pairing code
+    const child = await this.childModel.findOne({ pairingCode }).exec();
+
     if (!child) {
-      throw new NotFoundException('Child with this QR code not found');
+      throw new NotFoundException('Child with this pairing code not found');
+    }
+
+    if (
+      child.pairingCodeExpiresAt &&
+      child.pairingCodeExpiresAt.getTime() < Date.now()
+    ) {
+      throw new BadRequestException(
+        'Pairing code has expired, ask the parent to generate a new one',
+      );
     }
 
     // Check if user is trying to link to their own child as main parent
     if (child.parent.toString() === currentUser.id) {
-      throw new ForbiddenException('You are already the main parent of this child');
+      throw new ForbiddenException(
+        'You are already the main parent of this child',
+      );
     }
 
     // Check if already linked
-    const alreadyLinked = child.linkedParents.some(p => p.toString() === currentUser.id);
+    const alreadyLinked = child.linkedParents.some(
+      (p) => p.toString() === currentUser.id,
+    );
     if (alreadyLinked) {
       throw new ForbiddenException('You are already linked to this child');
     }
@@ -327,6 +966,17 @@ export class ChildService {
       throw new ForbiddenException('Only parents can link to children');
     }
 
+    // Consume a single-use code atomically so it cannot be used twice
+    if (child.pairingCodeSingleUse) {
+      const consumed = await this.childModel.updateOne(
+        { _id: child._id, pairingCode },
+        { $set: { pairingCode: null, pairingCodeExpiresAt: null } },
+      );
+      if (consumed.modifiedCount === 0) {
+        throw new NotFoundException('Child with this pairing code not found');
+      }
+    }
+
     // Add parent to linkedParents array
     child.linkedParents.push(new Types.ObjectId(currentUser.id));
     await child.save();
@@ -334,8 +984,16 @@ export class ChildService {
     // Create room for parent-child pair
     try {
       await this.roomModel.create({
+        type: RoomType.DIRECT,
         parent: new Types.ObjectId(currentUser.id),
         child: child._id,
+        participants: [
+          { participantModel: 'Child', participant: child._id },
+          {
+            participantModel: 'User',
+            participant: new Types.ObjectId(currentUser.id),
+          },
+        ],
         isActive: true,
       });
     } catch (error: any) {
@@ -344,6 +1002,7 @@ export class ChildService {
         console.error('Error creating room for linked parent:', error.message);
       }
     }
+    await this.syncFamilyRoom((child._id as any).toString());
 
     // Return updated child with populated fields
     const updatedChild = await this.childModel
@@ -358,40 +1017,117 @@ export class ChildService {
     };
   }
 
+  /**
+   * Generate new login and/or pairing codes for a child
+   * Rotating the login code signs the child out of every device
+   */
+  async rotateQrCodes(
+    id: string,
+    dto: RotateQrDto,
+    currentUser: any,
+  ): Promise<any> {
+    const child = await this.childModel.findById(id);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    if (currentUser.role !== UserRole.ADMIN) {
+      if (currentUser.type === 'child') {
+        throw new ForbiddenException('Only parents can rotate QR codes');
+      }
+      const isParent = child.parent.toString() === currentUser.id;
+      const isLinkedParent = child.linkedParents.some(
+        (p) => p.toString() === currentUser.id,
+      );
+      if (!isParent && !isLinkedParent) {
+        throw new ForbiddenException(
+          'You can only rotate QR codes of your own children',
+        );
+      }
+    }
+
+    const target = dto.target ?? QrCodeTarget.ALL;
+    const expiresAfter = (minutes: number) =>
+      new Date(Date.now() + minutes * 60 * 1000);
+    const rotateLogin = target !== QrCodeTarget.PAIRING;
+
+    // Login codes only expire or become single-use when asked to, pairing codes do by default
+    if (rotateLogin) {
+      child.qrCode = this.generateCode();
+      child.qrCodeExpiresAt = dto.expiresInMinutes
+        ? expiresAfter(dto.expiresInMinutes)
+        : null;
+      child.qrCodeSingleUse = dto.singleUse ?? false;
+    }
+    if (target !== QrCodeTarget.LOGIN) {
+      child.pairingCode = this.generateCode();
+      child.pairingCodeExpiresAt = expiresAfter(
+        dto.expiresInMinutes ?? DEFAULT_CODE_TTL_MINUTES,
+      );
+      child.pairingCodeSingleUse = dto.singleUse ?? true;
+    }
+    await child.save();
+
+    const revokedSessions = rotateLogin
+      ? await this.sessionService.revokeAllForSubject(id, 'QR_ROTATED')
+      : 0;
+
+    return {
+      qrCode: child.qrCode,
+      qrCodeExpiresAt: child.qrCodeExpiresAt,
+      qrCodeSingleUse: child.qrCodeSingleUse,
+      pairingCode: child.pairingCode,
+      pairingCodeExpiresAt: child.pairingCodeExpiresAt,
+      pairingCodeSingleUse: child.pairingCodeSingleUse,
+      revokedSessions,
+    };
+  }
+
   /**
    * Unlink current user from child
    */
   async unlinkParent(childId: string, currentUser: any): Promise<any> {
     const child = await this.childModel.findById(childId);
-    
+
     if (!child) {
       throw new NotFoundException('Child not found');
     }
 
     // Cannot unlink main parent
     if (child.parent.toString() === currentUser.id) {
-      throw new ForbiddenException('Cannot unlink main parent. Only linked parents can be removed.');
+      throw new ForbiddenException(
+        'Cannot unlink main parent. Only linked parents can be removed.',
+      );
     }
 
     // Check if user is actually linked
-    const isLinked = child.linkedParents.some(p => p.toString() === currentUser.id);
+    const isLinked = child.linkedParents.some(
+      (p) => p.toString() === currentUser.id,
+    );
     if (!isLinked) {
       throw new ForbiddenException('You are not linked to this child');
     }
 
     // Remove user from linkedParents
-    child.linkedParents = child.linkedParents.filter(p => p.toString() !== currentUser.id);
+    child.linkedParents = child.linkedParents.filter(
+      (p) => p.toString() !== currentUser.id,
+    );
     await child.save();
 
     // Optionally deactivate the room
     try {
       await this.roomModel.updateOne(
-        { parent: new Types.ObjectId(currentUser.id), child: child._id },
-        { isActive: false }
+        {
+          parent: new Types.ObjectId(currentUser.id),
+          child: child._id,
+          type: RoomType.DIRECT,
+        },
+        { isActive: false },
       );
     } catch (error) {
       console.error('Error deactivating room:', error);
     }
+    await this.syncFamilyRoom(childId);
 
     return {
       message: 'Successfully unlinked from child',
@@ -401,16 +1137,25 @@ export class ChildService {
   /**
    * Unlink specific parent from child (by main parent or admin)
    */
-  async unlinkSpecificParent(childId: string, parentId: string, currentUser: any): Promise<any> {
+  async unlinkSpecificParent(
+    childId: string,
+    parentId: string,
+    currentUser: any,
+  ): Promise<any> {
     const child = await this.childModel.findById(childId);
-    
+
     if (!child) {
       throw new NotFoundException('Child not found');
     }
 
     // Only main parent or admin can unlink other parents
-    if (currentUser.role !== UserRole.ADMIN && child.parent.toString() !== currentUser.id) {
-      throw new ForbiddenException('Only the main parent or admin can unlink other parents');
+    if (
+      currentUser.role !== UserRole.ADMIN &&
+      child.parent.toString() !== currentUser.id
+    ) {
+      throw new ForbiddenException(
+        'Only the main parent or admin can unlink other parents',
+      );
     }
 
     // Cannot unlink main parent
@@ -419,24 +1164,31 @@ export class ChildService {
     }
 
     // Check if parent is actually linked
-    const isLinked = child.linkedParents.some(p => p.toString() === parentId);
+    const isLinked = child.linkedParents.some((p) => p.toString() === parentId);
     if (!isLinked) {
       throw new NotFoundException('This parent is not linked to the child');
     }
 
     // Remove parent from linkedParents
-    child.linkedParents = child.linkedParents.filter(p => p.toString() !== parentId);
+    child.linkedParents = child.linkedParents.filter(
+      (p) => p.toString() !== parentId,
+    );
     await child.save();
 
     // Optionally deactivate the room
     try {
       await this.roomModel.updateOne(
-        { parent: new Types.ObjectId(parentId), child: child._id },
-        { isActive: false }
+        {
+          parent: new Types.ObjectId(parentId),
+          child: child._id,
+          type: RoomType.DIRECT,
+        },
+        { isActive: false },
       );
     } catch (error) {
       console.error('Error deactivating room:', error);
     }
+    await this.syncFamilyRoom(childId);
 
     return {
       message: 'Successfully unlinked parent from child',
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { UpdateChildLocationDto } from './update-child-location.dto';
+
+class LocationFixDto extends UpdateChildLocationDto {
+  @ApiProperty({
+    example: '2025-11-15T08:05:00.000Z',
+    description: 'When the device took the fix',
+  })
+  @IsDateString()
+  recordedAt: string;
+}
+
+export class BatchChildLocationsDto {
+  @ApiProperty({
+    type: [LocationFixDto],
+    description: 'Fixes collected while offline, oldest first (max 500)',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => LocationFixDto)
+  fixes: LocationFixDto[];
+}
@@ -0,0 +1,51 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CheckInDto {
+  @ApiPropertyOptional({
+    example: 'School',
+    description: 'Where the child checked in',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  placeLabel?: string;
+
+  @ApiPropertyOptional({
+    example: 33.5731,
+    description:
+      'Fresh latitude from the device (defaults to the last known location)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat?: number;
+
+  @ApiPropertyOptional({
+    example: -7.6598,
+    description:
+      'Fresh longitude from the device (defaults to the last known location)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng?: number;
+
+  @ApiPropertyOptional({
+    example: 15,
+    description: 'Horizontal accuracy of the fresh fix in meters',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  accuracy?: number;
+}
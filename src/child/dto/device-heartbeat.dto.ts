@@ -0,0 +1,50 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { NetworkType } from '../schemas/child.schema';
+
+export class DeviceHeartbeatDto {
+  @ApiPropertyOptional({
+    example: 42,
+    description: 'Battery level in percent (0-100)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  batteryLevel?: number;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Whether the device is charging',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isCharging?: boolean;
+
+  @ApiPropertyOptional({
+    enum: NetworkType,
+    example: NetworkType.CELLULAR,
+    description: 'Current network connection',
+  })
+  @IsOptional()
+  @IsEnum(NetworkType)
+  networkType?: NetworkType;
+
+  @ApiPropertyOptional({
+    example: '2.3.1',
+    description: 'Version of the child app',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  appVersion?: string;
+}
@@ -2,12 +2,12 @@ import { IsString, IsNotEmpty } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class LinkParentByQrDto {
-  @ApiProperty({ 
-    example: 'a1b2c3d4e5f6g7h8i9j0k1l2m3n4o5p6',
-    description: 'The QR code of the child to link to'
+  @ApiProperty({
+    example: 'f6e5d4c3b2a1f6e5d4c3b2a1f6e5d4c3',
+    description:
+      'The pairing code of the child to link to (not the child login QR code)',
   })
   @IsString()
   @IsNotEmpty()
-  qrCode: string;
+  pairingCode: string;
 }
-
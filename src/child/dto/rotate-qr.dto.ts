@@ -0,0 +1,48 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+
+export enum QrCodeTarget {
+  LOGIN = 'LOGIN',
+  PAIRING = 'PAIRING',
+  ALL = 'ALL',
+}
+
+export class RotateQrDto {
+  @ApiPropertyOptional({
+    enum: QrCodeTarget,
+    example: QrCodeTarget.ALL,
+    description:
+      'Which code to rotate. Rotating the LOGIN code signs the child out of every device',
+    default: QrCodeTarget.ALL,
+  })
+  @IsOptional()
+  @IsEnum(QrCodeTarget)
+  target?: QrCodeTarget;
+
+  @ApiPropertyOptional({
+    example: 1440,
+    description:
+      'Validity of the new code(s) in minutes (max 30 days). Defaults to 1440 for the pairing code; the login code never expires unless set',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(43200)
+  expiresInMinutes?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Invalidate the code after its first use. Defaults to true for the pairing code and false for the login code',
+  })
+  @IsOptional()
+  @IsBoolean()
+  singleUse?: boolean;
+}
@@ -1,16 +1,66 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsNumber, IsNotEmpty } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  Min,
+  Max,
+} from 'class-validator';
+import { LocationProvider } from '../schemas/child.schema';
 
 export class UpdateChildLocationDto {
   @ApiProperty({ example: 37.7749 })
   @IsNotEmpty()
   @IsNumber()
+  @Min(-90)
+  @Max(90)
   lat: number;
 
   @ApiProperty({ example: -122.4194 })
   @IsNotEmpty()
   @IsNumber()
+  @Min(-180)
+  @Max(180)
   lng: number;
-}
 
+  @ApiPropertyOptional({
+    example: 12,
+    description:
+      'Horizontal accuracy in meters (radius). Fixes whose accuracy circle crosses a zone boundary do not change zone state',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  accuracy?: number;
 
+  @ApiPropertyOptional({ example: 1.4, description: 'Speed in m/s' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  speed?: number;
+
+  @ApiPropertyOptional({
+    example: 270,
+    description: 'Heading in degrees from north (0-360)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(360)
+  heading?: number;
+
+  @ApiPropertyOptional({ example: 35, description: 'Altitude in meters' })
+  @IsOptional()
+  @IsNumber()
+  altitude?: number;
+
+  @ApiPropertyOptional({
+    enum: LocationProvider,
+    example: LocationProvider.GPS,
+    description: 'Source of the fix',
+  })
+  @IsOptional()
+  @IsEnum(LocationProvider)
+  provider?: LocationProvider;
+}
@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { LocationProvider } from './child.schema';
+
+export type ChildLocationDocument = ChildLocation & Document;
+
+@Schema({ timestamps: true })
+export class ChildLocation {
+  @Prop({ type: Types.ObjectId, ref: 'Child', required: true })
+  child: Types.ObjectId;
+
+  @Prop({ required: true })
+  lat: number;
+
+  @Prop({ required: true })
+  lng: number;
+
+  @Prop({ type: Date, required: true })
+  recordedAt: Date; // when the fix was taken (may differ from createdAt)
+
+  @Prop({ type: Number, default: null })
+  accuracy: number | null; // horizontal accuracy in meters, when the device reports it
+
+  @Prop({ type: Number, default: null })
+  speed: number | null; // m/s
+
+  @Prop({ type: Number, default: null })
+  heading: number | null; // degrees from north
+
+  @Prop({ type: Number, default: null })
+  altitude: number | null; // meters
+
+  @Prop({
+    type: String,
+    enum: [...Object.values(LocationProvider), null],
+    default: null,
+  })
+  provider: LocationProvider | null;
+}
+
+export const ChildLocationSchema = SchemaFactory.createForClass(ChildLocation);
+
+// Index for time-ordered track queries per child
+ChildLocationSchema.index({ child: 1, recordedAt: 1 });
@@ -9,6 +9,38 @@ export enum DeviceType {
   WATCH = 'WATCH',
 }
 
+export enum LocationProvider {
+  GPS = 'gps',
+  NETWORK = 'network',
+  WIFI = 'wifi',
+}
+
+export interface ChildLocationFix {
+  lat: number;
+  lng: number;
+  updatedAt: Date;
+  accuracy?: number | null; // meters (radius of the uncertainty circle)
+  speed?: number | null; // m/s
+  heading?: number | null; // degrees from north
+  altitude?: number | null; // meters
+  provider?: LocationProvider | null;
+}
+
+export enum NetworkType {
+  WIFI = 'wifi',
+  CELLULAR = 'cellular',
+  NONE = 'none',
+  UNKNOWN = 'unknown',
+}
+
+export interface DeviceTelemetry {
+  batteryLevel: number | null; // percent
+  isCharging: boolean | null;
+  networkType: NetworkType | null;
+  appVersion: string | null;
+  updatedAt: Date;
+}
+
 export enum ChildStatus {
   ACTIVE = 'ACTIVE',
   INACTIVE = 'INACTIVE',
@@ -36,10 +68,19 @@ export class Child {
       lat: { type: Number },
       lng: { type: Number },
       updatedAt: { type: Date },
+      accuracy: { type: Number, default: null },
+      speed: { type: Number, default: null },
+      heading: { type: Number, default: null },
+      altitude: { type: Number, default: null },
+      provider: {
+        type: String,
+        enum: [...Object.values(LocationProvider), null],
+        default: null,
+      },
     },
     default: null,
   })
-  location?: { lat: number; lng: number; updatedAt: Date };
+  location?: ChildLocationFix;
 
   @Prop({ default: null })
   deviceId: string; // e.g. iPhone or Apple Watch unique ID
@@ -48,17 +89,56 @@ export class Child {
   deviceType: DeviceType;
 
   @Prop({ default: false })
-  isOnline: boolean;
+  isOnline: boolean; // socket connected or heartbeat received within the silence period
+
+  @Prop({
+    type: {
+      batteryLevel: { type: Number, default: null },
+      isCharging: { type: Boolean, default: null },
+      networkType: {
+        type: String,
+        enum: [...Object.values(NetworkType), null],
+        default: null,
+      },
+      appVersion: { type: String, default: null },
+      updatedAt: { type: Date },
+    },
+    default: null,
+  })
+  device?: DeviceTelemetry | null; // last heartbeat report
+
+  @Prop({ type: Date, default: null })
+  lastSeenAt: Date | null; // last heartbeat, location update or socket connection
+
+  @Prop({ default: false })
+  lowBatteryAlerted: boolean; // parents already alerted for the current low battery episode
+
+  @Prop({ type: Date, default: null })
+  silenceAlertedAt: Date | null; // parents alerted that the device went silent (cleared when it reports again)
 
   @Prop({ enum: ChildStatus, default: ChildStatus.ACTIVE })
   status: ChildStatus;
 
   @Prop({ type: String, default: null })
-  qrCode: string | null; // QR used for child login or linking
+  qrCode: string | null; // QR used for child login
+
+  @Prop({ type: Date, default: null })
+  qrCodeExpiresAt: Date | null; // null = never expires (codes created before rotation existed)
+
+  @Prop({ default: false })
+  qrCodeSingleUse: boolean; // cleared after the first successful login
+
+  @Prop({ type: String, default: null })
+  pairingCode: string | null; // code another parent scans to link (POST /children/link-parent)
+
+  @Prop({ type: Date, default: null })
+  pairingCodeExpiresAt: Date | null;
+
+  @Prop({ default: false })
+  pairingCodeSingleUse: boolean; // cleared after the first successful link
 
   @Prop({ type: Object, default: {} })
   additionalAttributes: Record<string, any>;
 }
 
 export const ChildSchema = SchemaFactory.createForClass(Child);
-
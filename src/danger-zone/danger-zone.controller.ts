@@ -33,20 +33,28 @@ export class DangerZoneController {
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Create a new danger zone (PARENT and ADMIN only)',
-    description: 'Parents create zones for their children. When a child enters/exits, notifications are sent.'
+    description:
+      'Parents create zones for their children. When a child enters/exits, notifications are sent.',
   })
   @ApiResponse({ status: 201, description: 'Danger zone successfully created' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Only PARENT or ADMIN can create danger zones' })
-  create(@Body() createDangerZoneDto: CreateDangerZoneDto, @CurrentUser() currentUser: any) {
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only PARENT or ADMIN can create danger zones',
+  })
+  create(
+    @Body() createDangerZoneDto: CreateDangerZoneDto,
+    @CurrentUser() currentUser: any,
+  ) {
     return this.dangerZoneService.create(createDangerZoneDto, currentUser);
   }
 
   @Get()
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
-    summary: 'Get all danger zones (ADMIN sees all, PARENT sees only their own)',
+  @ApiOperation({
+    summary:
+      'Get all danger zones (ADMIN sees all, PARENT sees only their own)',
   })
   @ApiResponse({ status: 200, description: 'List of danger zones' })
   findAll(@CurrentUser() currentUser: any) {
@@ -55,12 +63,16 @@ export class DangerZoneController {
 
   @Get(':id')
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
-    summary: 'Get danger zone by ID (ADMIN can access any, PARENT only their own)',
+  @ApiOperation({
+    summary:
+      'Get danger zone by ID (ADMIN can access any, PARENT only their own)',
   })
   @ApiParam({ name: 'id', description: 'Danger Zone ID' })
   @ApiResponse({ status: 200, description: 'Danger zone details' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Cannot access this danger zone' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot access this danger zone',
+  })
   @ApiResponse({ status: 404, description: 'Danger zone not found' })
   findOne(@Param('id') id: string, @CurrentUser() currentUser: any) {
     return this.dangerZoneService.findOne(id, currentUser);
@@ -68,12 +80,15 @@ export class DangerZoneController {
 
   @Patch(':id')
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Update danger zone (ADMIN can update any, PARENT only their own)',
   })
   @ApiParam({ name: 'id', description: 'Danger Zone ID' })
   @ApiResponse({ status: 200, description: 'Danger zone successfully updated' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Cannot update this danger zone' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot update this danger zone',
+  })
   @ApiResponse({ status: 404, description: 'Danger zone not found' })
   update(
     @Param('id') id: string,
@@ -85,12 +100,15 @@ export class DangerZoneController {
 
   @Delete(':id')
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Delete danger zone (ADMIN can delete any, PARENT only their own)',
   })
   @ApiParam({ name: 'id', description: 'Danger Zone ID' })
   @ApiResponse({ status: 200, description: 'Danger zone successfully deleted' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Cannot delete this danger zone' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Cannot delete this danger zone',
+  })
   @ApiResponse({ status: 404, description: 'Danger zone not found' })
   remove(@Param('id') id: string, @CurrentUser() currentUser: any) {
     return this.dangerZoneService.remove(id, currentUser);
@@ -98,9 +116,9 @@ export class DangerZoneController {
 
   @Get(':id/events')
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Get all events (entry/exit) for a danger zone',
-    description: 'Returns history of children entering/exiting this zone'
+    description: 'Returns history of children entering/exiting this zone',
   })
   @ApiParam({ name: 'id', description: 'Danger Zone ID' })
   @ApiResponse({ status: 200, description: 'List of danger zone events' })
@@ -112,16 +130,39 @@ export class DangerZoneController {
 
   @Get('child/:childId/active')
   @Roles(UserRole.ADMIN, UserRole.PARENT)
-  @ApiOperation({ 
+  @ApiOperation({
     summary: 'Get all active danger zones for a specific child',
-    description: 'Shows which danger zones are currently monitoring this child'
+    description: 'Shows which danger zones are currently monitoring this child',
   })
   @ApiParam({ name: 'childId', description: 'Child ID' })
-  @ApiResponse({ status: 200, description: 'List of active danger zones for the child' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of active danger zones for the child',
+  })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({ status: 404, description: 'Child not found' })
-  getChildActiveZones(@Param('childId') childId: string, @CurrentUser() currentUser: any) {
+  getChildActiveZones(
+    @Param('childId') childId: string,
+    @CurrentUser() currentUser: any,
+  ) {
     return this.dangerZoneService.getChildActiveZones(childId, currentUser);
   }
-}
 
+  @Get('child/:childId/safe-status')
+  @Roles(UserRole.ADMIN, UserRole.PARENT)
+  @ApiOperation({
+    summary: 'Get safe zone status for a specific child',
+    description:
+      'Shows which safe zones the child is currently in, and whether they are outside all of them',
+  })
+  @ApiParam({ name: 'childId', description: 'Child ID' })
+  @ApiResponse({ status: 200, description: 'Safe zone status for the child' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Child not found' })
+  getChildSafeZoneStatus(
+    @Param('childId') childId: string,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.dangerZoneService.getChildSafeZoneStatus(childId, currentUser);
+  }
+}
@@ -3,7 +3,14 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { DangerZoneController } from './danger-zone.controller';
 import { DangerZoneService } from './danger-zone.service';
 import { DangerZone, DangerZoneSchema } from './schemas/danger-zone.schema';
-import { DangerZoneEvent, DangerZoneEventSchema } from './schemas/danger-zone-event.schema';
+import {
+  DangerZoneEvent,
+  DangerZoneEventSchema,
+} from './schemas/danger-zone-event.schema';
+import {
+  DangerZoneState,
+  DangerZoneStateSchema,
+} from './schemas/danger-zone-state.schema';
 import { Child, ChildSchema } from '../child/schemas/child.schema';
 import { User, UserSchema } from '../user/schemas/user.schema';
 
@@ -12,6 +19,7 @@ import { User, UserSchema } from '../user/schemas/user.schema';
     MongooseModule.forFeature([
       { name: DangerZone.name, schema: DangerZoneSchema },
       { name: DangerZoneEvent.name, schema: DangerZoneEventSchema },
+      { name: DangerZoneState.name, schema: DangerZoneStateSchema },
       { name: Child.name, schema: ChildSchema },
       { name: User.name, schema: UserSchema },
     ]),
@@ -21,4 +29,3 @@ import { User, UserSchema } from '../user/schemas/user.schema';
   exports: [DangerZoneService],
 })
 export class DangerZoneModule {}
-
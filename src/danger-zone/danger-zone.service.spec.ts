@@ -1,24 +1,57 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
 import { DangerZoneService } from './danger-zone.service';
-import { DangerZone } from './schemas/danger-zone.schema';
-import { DangerZoneEvent } from './schemas/danger-zone-event.schema';
+import {
+  DangerZone,
+  DangerZoneShape,
+  DangerZoneStatus,
+} from './schemas/danger-zone.schema';
+import {
+  DangerZoneEvent,
+  DangerZoneEventType,
+} from './schemas/danger-zone-event.schema';
+import { DangerZoneState } from './schemas/danger-zone-state.schema';
 import { Child } from '../child/schemas/child.schema';
 
 describe('DangerZoneService', () => {
   let service: DangerZoneService;
+  let dangerZoneModel: any;
+  let dangerZoneEventModel: any;
+  let dangerZoneStateModel: any;
 
   beforeEach(async () => {
+    dangerZoneModel = {
+      find: jest.fn(),
+    };
+    dangerZoneEventModel = {
+      findOne: jest.fn(),
+      create: jest.fn((data: any) => Promise.resolve(data)),
+    };
+    // Single child/zone pair in these tests: keep one state in memory
+    let state: any = null;
+    dangerZoneStateModel = {
+      findOne: jest.fn(() => ({ exec: jest.fn(() => Promise.resolve(state)) })),
+      updateOne: jest.fn((_filter: any, update: any) => {
+        state = { ...state, ...update.$set };
+        return Promise.resolve();
+      }),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         DangerZoneService,
         {
           provide: getModelToken(DangerZone.name),
-          useValue: {},
+          useValue: dangerZoneModel,
         },
         {
           provide: getModelToken(DangerZoneEvent.name),
-          useValue: {},
+          useValue: dangerZoneEventModel,
+        },
+        {
+          provide: getModelToken(DangerZoneState.name),
+          useValue: dangerZoneStateModel,
         },
         {
           provide: getModelToken(Child.name),
@@ -33,5 +66,194 @@ describe('DangerZoneService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
-});
 
+  describe('checkDangerZones', () => {
+    const polygonZone = {
+      _id: new Types.ObjectId(),
+      name: 'River bank',
+      shape: DangerZoneShape.POLYGON,
+      polygon: [
+        { lat: 33.57, lng: -7.66 },
+        { lat: 33.58, lng: -7.66 },
+        { lat: 33.58, lng: -7.65 },
+        { lat: 33.57, lng: -7.65 },
+      ],
+      status: DangerZoneStatus.ACTIVE,
+      notifyOnEntry: true,
+      notifyOnExit: false,
+    };
+
+    const buildChild = (lat: number, lng: number): any => ({
+      _id: new Types.ObjectId(),
+      parent: new Types.ObjectId(),
+      linkedParents: [],
+      location: { lat, lng, updatedAt: new Date() },
+    });
+
+    beforeEach(() => {
+      dangerZoneModel.find.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([polygonZone]),
+      });
+      dangerZoneEventModel.findOne.mockReturnValue({
+        sort: jest
+          .fn()
+          .mockReturnValue({ exec: jest.fn().mockResolvedValue(null) }),
+      });
+    });
+
+    it('records an ENTER event when the child is inside a polygon zone', async () => {
+      const events = await service.checkDangerZones(buildChild(33.575, -7.655));
+
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe(DangerZoneEventType.ENTER);
+    });
+
+    it('stamps events with the time of the fix (offline replay)', async () => {
+      const fixTime = new Date('2025-11-17T06:30:00Z');
+
+      const events = await service.checkDangerZones(
+        buildChild(33.575, -7.655),
+        fixTime,
+      );
+
+      expect(events[0].occurredAt).toEqual(fixTime);
+    });
+
+    it('skips zones outside their scheduled window', async () => {
+      dangerZoneModel.find.mockReturnValue({
+        exec: jest.fn().mockResolvedValue([
+          {
+            ...polygonZone,
+            timezone: 'UTC',
+            schedules: [
+              { days: [1, 2, 3, 4, 5], startTime: '17:00', endTime: '23:00' },
+            ],
+          },
+        ]),
+      });
+      const child = buildChild(33.575, -7.655);
+
+      // Monday 10:00 UTC: outside the window
+      const outside = await service.checkDangerZones(
+        child,
+        new Date('2025-11-17T10:00:00Z'),
+      );
+      // Monday 18:00 UTC: inside the window
+      const inside = await service.checkDangerZones(
+        child,
+        new Date('2025-11-17T18:00:00Z'),
+      );
+
+      expect(outside).toHaveLength(0);
+      expect(inside).toHaveLength(1);
+    });
+
+    it('keeps the previous state when the accuracy circle straddles the boundary', async () => {
+      // The zone centre is ~460 m from the nearest edge
+      const precise = buildChild(33.575, -7.655);
+      precise.location.accuracy = 50;
+      const imprecise = buildChild(33.575, -7.655);
+      imprecise.location.accuracy = 600;
+
+      expect(await service.checkDangerZones(imprecise)).toHaveLength(0);
+      expect(await service.checkDangerZones(precise)).toHaveLength(1);
+    });
+
+    it('records ENTER only after the dwell time, at the time it was first seen', async () => {
+      dangerZoneModel.find.mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue([{ ...polygonZone, dwellTimeSeconds: 120 }]),
+      });
+      const child = buildChild(33.575, -7.655);
+      const firstSeen = new Date('2025-11-17T10:00:00Z');
+
+      const pending = await service.checkDangerZones(child, firstSeen);
+      const stillPending = await service.checkDangerZones(
+        child,
+        new Date('2025-11-17T10:01:00Z'),
+      );
+      const confirmed = await service.checkDangerZones(
+        child,
+        new Date('2025-11-17T10:02:00Z'),
+      );
+
+      expect(pending).toHaveLength(0);
+      expect(stillPending).toHaveLength(0);
+      expect(confirmed).toHaveLength(1);
+      expect(confirmed[0].occurredAt).toEqual(firstSeen);
+    });
+
+    it('does not flip state within the boundary buffer', async () => {
+      dangerZoneModel.find.mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue([{ ...polygonZone, boundaryBufferMeters: 50 }]),
+      });
+
+      // ~11 m inside the southern edge
+      const nearEdge = await service.checkDangerZones(
+        buildChild(33.5701, -7.655),
+      );
+      // ~110 m inside
+      const wellInside = await service.checkDangerZones(
+        buildChild(33.571, -7.655),
+      );
+
+      expect(nearEdge).toHaveLength(0);
+      expect(wellInside).toHaveLength(1);
+    });
+
+    it('alerts when the child leaves a zone that does not notify on entry', async () => {
+      dangerZoneModel.find.mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue([
+            { ...polygonZone, notifyOnEntry: false, notifyOnExit: true },
+          ]),
+      });
+
+      const entered = await service.checkDangerZones(
+        buildChild(33.575, -7.655),
+      );
+      const left = await service.checkDangerZones(buildChild(33.59, -7.655));
+
+      expect(entered).toHaveLength(0);
+      expect(dangerZoneEventModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ type: DangerZoneEventType.ENTER }),
+      );
+      expect(left).toHaveLength(1);
+      expect(left[0].type).toBe(DangerZoneEventType.EXIT);
+    });
+
+    it('starts from a silent ENTER event when no state was stored yet', async () => {
+      dangerZoneModel.find.mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue([
+            { ...polygonZone, notifyOnEntry: false, notifyOnExit: true },
+          ]),
+      });
+      dangerZoneEventModel.findOne.mockReturnValue({
+        sort: jest.fn().mockReturnValue({
+          exec: jest.fn().mockResolvedValue({
+            type: DangerZoneEventType.ENTER,
+            notificationSent: false,
+          }),
+        }),
+      });
+
+      const left = await service.checkDangerZones(buildChild(33.59, -7.655));
+
+      expect(left).toHaveLength(1);
+      expect(left[0].type).toBe(DangerZoneEventType.EXIT);
+    });
+
+    it('ignores a child outside the polygon zone', async () => {
+      const events = await service.checkDangerZones(buildChild(33.59, -7.655));
+
+      expect(events).toHaveLength(0);
+      expect(dangerZoneEventModel.create).not.toHaveBeenCalled();
+    });
+  });
+});
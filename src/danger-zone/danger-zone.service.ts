@@ -1,8 +1,27 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { DangerZone, DangerZoneDocument, DangerZoneStatus } from './schemas/danger-zone.schema';
-import { DangerZoneEvent, DangerZoneEventDocument, DangerZoneEventType } from './schemas/danger-zone-event.schema';
+import {
+  DangerZone,
+  DangerZoneDocument,
+  DangerZoneStatus,
+  DangerZoneShape,
+  ZoneKind,
+} from './schemas/danger-zone.schema';
+import {
+  DangerZoneEvent,
+  DangerZoneEventDocument,
+  DangerZoneEventType,
+} from './schemas/danger-zone-event.schema';
+import {
+  DangerZoneState,
+  DangerZoneStateDocument,
+} from './schemas/danger-zone-state.schema';
 import { Child, ChildDocument } from '../child/schemas/child.schema';
 import { CreateDangerZoneDto } from './dto/create-danger-zone.dto';
 import { UpdateDangerZoneDto } from './dto/update-danger-zone.dto';
@@ -11,8 +30,12 @@ import { UserRole } from '../user/schemas/user.schema';
 @Injectable()
 export class DangerZoneService {
   constructor(
-    @InjectModel(DangerZone.name) private dangerZoneModel: Model<DangerZoneDocument>,
-    @InjectModel(DangerZoneEvent.name) private dangerZoneEventModel: Model<DangerZoneEventDocument>,
+    @InjectModel(DangerZone.name)
+    private dangerZoneModel: Model<DangerZoneDocument>,
+    @InjectModel(DangerZoneEvent.name)
+    private dangerZoneEventModel: Model<DangerZoneEventDocument>,
+    @InjectModel(DangerZoneState.name)
+    private dangerZoneStateModel: Model<DangerZoneStateDocument>,
     @InjectModel(Child.name) private childModel: Model<ChildDocument>,
   ) {}
 
@@ -20,7 +43,7 @@ export class DangerZoneService {
    * Calculate distance between two coordinates using Haversine formula
    * Returns distance in meters
    */
-  private calculateDistance(
+  calculateDistance(
     lat1: number,
     lng1: number,
     lat2: number,
@@ -40,7 +63,210 @@ export class DangerZoneService {
     return R * c;
   }
 
-  async create(createDangerZoneDto: CreateDangerZoneDto, currentUser: any): Promise<DangerZone> {
+  /**
+   * Ray-casting point-in-polygon test on lat/lng vertices
+   * Accurate enough for zone sizes we deal with (no antimeridian crossing)
+   */
+  private isPointInPolygon(
+    point: { lat: number; lng: number },
+    polygon: { lat: number; lng: number }[],
+  ): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const xi = polygon[i].lng;
+      const yi = polygon[i].lat;
+      const xj = polygon[j].lng;
+      const yj = polygon[j].lat;
+
+      const intersects =
+        yi > point.lat !== yj > point.lat &&
+        point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi;
+
+      if (intersects) {
+        inside = !inside;
+      }
+    }
+
+    return inside;
+  }
+
+  /**
+   * Check whether a location is inside a zone, whatever its shape
+   */
+  isInsideZone(
+    zone: DangerZone,
+    location: { lat: number; lng: number },
+  ): boolean {
+    if (zone.shape === DangerZoneShape.POLYGON) {
+      return (
+        Array.isArray(zone.polygon) &&
+        zone.polygon.length >= 3 &&
+        this.isPointInPolygon(location, zone.polygon)
+      );
+    }
+
+    const distance = this.calculateDistance(
+      location.lat,
+      location.lng,
+      zone.center.lat,
+      zone.center.lng,
+    );
+    return distance <= zone.radiusMeters;
+  }
+
+  /**
+   * Distance in meters from a location to the nearest edge of a zone
+   * Polygon edges are measured on a local flat projection around the location
+   */
+  private distanceToBoundary(
+    zone: DangerZone,
+    location: { lat: number; lng: number },
+  ): number {
+    if (zone.shape !== DangerZoneShape.POLYGON) {
+      const distance = this.calculateDistance(
+        location.lat,
+        location.lng,
+        zone.center.lat,
+        zone.center.lng,
+      );
+      return Math.abs(distance - zone.radiusMeters);
+    }
+
+    const metersPerDegree = (6371e3 * Math.PI) / 180;
+    const cosLat = Math.cos((location.lat * Math.PI) / 180);
+    const project = (vertex: { lat: number; lng: number }) => ({
+      x: (vertex.lng - location.lng) * metersPerDegree * cosLat,
+      y: (vertex.lat - location.lat) * metersPerDegree,
+    });
+
+    let minDistance = Infinity;
+    const polygon = zone.polygon || [];
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = project(polygon[j]);
+      const b = project(polygon[i]);
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      // Closest point of segment [a, b] to the origin (the location)
+      const t =
+        lengthSquared === 0
+          ? 0
+          : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+      minDistance = Math.min(
+        minDistance,
+        Math.hypot(a.x + t * dx, a.y + t * dy),
+      );
+    }
+    return minDistance;
+  }
+
+  /**
+   * A fix is ambiguous for a zone when its accuracy circle straddles the zone boundary:
+   * the child could be on either side, so it must not change the inside/outside state
+   */
+  private isAmbiguousFix(
+    zone: DangerZone,
+    location: { lat: number; lng: number; accuracy?: number | null },
+  ): boolean {
+    if (location.accuracy == null || location.accuracy <= 0) {
+      return false;
+    }
+    return location.accuracy > this.distanceToBoundary(zone, location);
+  }
+
+  /**
+   * Get day of week (0 = Sunday) and minutes since midnight of a date in a timezone
+   */
+  private getLocalTime(
+    at: Date,
+    timezone: string,
+  ): { day: number; minutes: number } {
+    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(at);
+    } catch {
+      // Unknown timezone stored on an old zone: fall back to UTC
+      return {
+        day: at.getUTCDay(),
+        minutes: at.getUTCHours() * 60 + at.getUTCMinutes(),
+      };
+    }
+
+    const get = (type: string) =>
+      parts.find((p) => p.type === type)?.value ?? '';
+    return {
+      day: weekdays.indexOf(get('weekday')),
+      minutes: Number(get('hour')) * 60 + Number(get('minute')),
+    };
+  }
+
+  /**
+   * Check whether a zone is monitored at a given time according to its weekly schedules
+   * Zones without schedules are always monitored
+   */
+  private isZoneScheduledAt(zone: DangerZone, at: Date): boolean {
+    if (!Array.isArray(zone.schedules) || zone.schedules.length === 0) {
+      return true;
+    }
+
+    const { day, minutes } = this.getLocalTime(at, zone.timezone || 'UTC');
+    const previousDay = (day + 6) % 7;
+    const toMinutes = (time: string) => {
+      const [h, m] = time.split(':').map(Number);
+      return h * 60 + m;
+    };
+
+    return zone.schedules.some((window) => {
+      const start = toMinutes(window.startTime);
+      const end = toMinutes(window.endTime);
+
+      if (start === end) {
+        // Whole day
+        return window.days.includes(day);
+      }
+      if (start < end) {
+        return window.days.includes(day) && minutes >= start && minutes < end;
+      }
+      // Overnight window: starts on a listed day and ends the next day
+      return (
+        (window.days.includes(day) && minutes >= start) ||
+        (window.days.includes(previousDay) && minutes < end)
+      );
+    });
+  }
+
+  /**
+   * Ensure the zone has the geometry its shape requires
+   */
+  private assertValidGeometry(zone: Partial<DangerZone>): void {
+    if (zone.shape === DangerZoneShape.POLYGON) {
+      if (!Array.isArray(zone.polygon) || zone.polygon.length < 3) {
+        throw new BadRequestException(
+          'Polygon zones require at least 3 vertices',
+        );
+      }
+      return;
+    }
+
+    if (!zone.center || typeof zone.radiusMeters !== 'number') {
+      throw new BadRequestException(
+        'Circle zones require a center and radiusMeters',
+      );
+    }
+  }
+
+  async create(
+    createDangerZoneDto: CreateDangerZoneDto,
+    currentUser: any,
+  ): Promise<DangerZone> {
     // Parent can only create zones for themselves
     let parentId = currentUser.id;
 
@@ -50,25 +276,63 @@ export class DangerZoneService {
     }
 
     // Validate children belong to this parent
-    if (createDangerZoneDto.children && createDangerZoneDto.children.length > 0) {
+    if (
+      createDangerZoneDto.children &&
+      createDangerZoneDto.children.length > 0
+    ) {
       const children = await this.childModel.find({
-        _id: { $in: createDangerZoneDto.children.map(id => new Types.ObjectId(id)) },
+        _id: {
+          $in: createDangerZoneDto.children.map((id) => new Types.ObjectId(id)),
+        },
       });
 
       for (const child of children) {
         const isParent = child.parent.toString() === parentId;
-        const isLinkedParent = child.linkedParents.some(p => p.toString() === parentId);
-        
-        if (!isParent && !isLinkedParent && currentUser.role !== UserRole.ADMIN) {
-          throw new ForbiddenException(`Child ${child._id} does not belong to you`);
+        const isLinkedParent = child.linkedParents.some(
+          (p) => p.toString() === parentId,
+        );
+
+        if (
+          !isParent &&
+          !isLinkedParent &&
+          currentUser.role !== UserRole.ADMIN
+        ) {
+          throw new ForbiddenException(
+            `Child ${child._id} does not belong to you`,
+          );
         }
       }
     }
 
-    const dangerZone = new this.dangerZoneModel({
+    const shape = createDangerZoneDto.shape ?? DangerZoneShape.CIRCLE;
+    this.assertValidGeometry({
       ...createDangerZoneDto,
+      shape,
+    } as Partial<DangerZone>);
+
+    const { center, radiusMeters, polygon, ...zoneData } = createDangerZoneDto;
+    const geometry =
+      shape === DangerZoneShape.POLYGON
+        ? { polygon }
+        : { center, radiusMeters };
+
+    // Safe zones alert on exit by default, danger zones on entry
+    const kind = createDangerZoneDto.kind ?? ZoneKind.DANGER;
+    const notifyOnEntry =
+      createDangerZoneDto.notifyOnEntry ?? kind !== ZoneKind.SAFE;
+    const notifyOnExit =
+      createDangerZoneDto.notifyOnExit ?? kind === ZoneKind.SAFE;
+
+    const dangerZone = new this.dangerZoneModel({
+      ...zoneData,
+      ...geometry,
+      kind,
+      shape,
+      notifyOnEntry,
+      notifyOnExit,
       parent: parentId,
-      children: createDangerZoneDto.children?.map(id => new Types.ObjectId(id)) || [],
+      children:
+        createDangerZoneDto.children?.map((id) => new Types.ObjectId(id)) || [],
     });
 
     return dangerZone.save();
@@ -76,9 +340,8 @@ export class DangerZoneService {
 
   async findAll(currentUser: any): Promise<DangerZone[]> {
     // Admin can see all danger zones, parent sees only their own
-    const query = currentUser.role === UserRole.ADMIN 
-      ? {} 
-      : { parent: currentUser.id };
+    const query =
+      currentUser.role === UserRole.ADMIN ? {} : { parent: currentUser.id };
 
     return this.dangerZoneModel
       .find(query)
@@ -100,14 +363,21 @@ export class DangerZoneService {
     }
 
     // Check ownership
-    if (currentUser.role !== UserRole.ADMIN && dangerZone.parent.toString() !== currentUser.id) {
+    if (
+      currentUser.role !== UserRole.ADMIN &&
+      dangerZone.parent.toString() !== currentUser.id
+    ) {
       throw new ForbiddenException('You can only access your own danger zones');
     }
 
     return dangerZone;
   }
 
-  async update(id: string, updateDangerZoneDto: UpdateDangerZoneDto, currentUser: any): Promise<DangerZone> {
+  async update(
+    id: string,
+    updateDangerZoneDto: UpdateDangerZoneDto,
+    currentUser: any,
+  ): Promise<DangerZone> {
     const dangerZone = await this.dangerZoneModel.findById(id);
 
     if (!dangerZone) {
@@ -115,33 +385,78 @@ export class DangerZoneService {
     }
 
     // Check ownership
-    if (currentUser.role !== UserRole.ADMIN && dangerZone.parent.toString() !== currentUser.id) {
+    if (
+      currentUser.role !== UserRole.ADMIN &&
+      dangerZone.parent.toString() !== currentUser.id
+    ) {
       throw new ForbiddenException('You can only update your own danger zones');
     }
 
     // Validate children if being updated
-    if (updateDangerZoneDto.children && updateDangerZoneDto.children.length > 0) {
+    if (
+      updateDangerZoneDto.children &&
+      updateDangerZoneDto.children.length > 0
+    ) {
       const children = await this.childModel.find({
-        _id: { $in: updateDangerZoneDto.children.map(id => new Types.ObjectId(id)) },
+        _id: {
+          $in: updateDangerZoneDto.children.map((id) => new Types.ObjectId(id)),
+        },
       });
 
       for (const child of children) {
-        const isParent = child.parent.toString() === dangerZone.parent.toString();
-        const isLinkedParent = child.linkedParents.some(p => p.toString() === dangerZone.parent.toString());
-        
-        if (!isParent && !isLinkedParent && currentUser.role !== UserRole.ADMIN) {
-          throw new ForbiddenException(`Child ${child._id} does not belong to you`);
+        const isParent =
+          child.parent.toString() === dangerZone.parent.toString();
+        const isLinkedParent = child.linkedParents.some(
+          (p) => p.toString() === dangerZone.parent.toString(),
+        );
+
+        if (
+          !isParent &&
+          !isLinkedParent &&
+          currentUser.role !== UserRole.ADMIN
+        ) {
+          throw new ForbiddenException(
+            `Child ${child._id} does not belong to you`,
+          );
         }
       }
     }
 
     const updateData: any = { ...updateDangerZoneDto };
     if (updateDangerZoneDto.children) {
-      updateData.children = updateDangerZoneDto.children.map(id => new Types.ObjectId(id));
+      updateData.children = updateDangerZoneDto.children.map(
+        (id) => new Types.ObjectId(id),
+      );
+    }
+
+    // Validate the resulting geometry and drop fields that don't belong to the shape
+    const shape =
+      updateDangerZoneDto.shape ?? dangerZone.shape ?? DangerZoneShape.CIRCLE;
+    this.assertValidGeometry({
+      shape,
+      center: updateDangerZoneDto.center ?? dangerZone.center,
+      radiusMeters: updateDangerZoneDto.radiusMeters ?? dangerZone.radiusMeters,
+      polygon: updateDangerZoneDto.polygon ?? dangerZone.polygon,
+    });
+
+    updateData.shape = shape;
+    const unsetData: any = {};
+    if (shape === DangerZoneShape.POLYGON) {
+      delete updateData.center;
+      delete updateData.radiusMeters;
+      unsetData.center = '';
+      unsetData.radiusMeters = '';
+    } else {
+      delete updateData.polygon;
+      unsetData.polygon = '';
     }
 
     const updatedZone = await this.dangerZoneModel
-      .findByIdAndUpdate(id, { $set: updateData }, { new: true, runValidators: true })
+      .findByIdAndUpdate(
+        id,
+        { $set: updateData, $unset: unsetData },
+        { new: true, runValidators: true },
+      )
       .populate('parent', '-password')
       .populate('children')
       .exec();
@@ -161,81 +476,159 @@ export class DangerZoneService {
     }
 
     // Check ownership
-    if (currentUser.role !== UserRole.ADMIN && dangerZone.parent.toString() !== currentUser.id) {
+    if (
+      currentUser.role !== UserRole.ADMIN &&
+      dangerZone.parent.toString() !== currentUser.id
+    ) {
       throw new ForbiddenException('You can only delete your own danger zones');
     }
 
     await this.dangerZoneModel.findByIdAndDelete(id);
-    
-    // Clean up related events
+
+    // Clean up related events and per-child states
     await this.dangerZoneEventModel.deleteMany({ dangerZone: id });
+    await this.dangerZoneStateModel.deleteMany({ dangerZone: id });
   }
 
   /**
    * Check if a child has entered or exited any danger zones
+   * Zones outside their scheduled windows at `at` are skipped
+   * A transition becomes an event only once it has held for the zone's dwell time
+   * and the child is past the zone's boundary buffer
    * Returns array of events that need notification
    */
-  async checkDangerZones(child: Child): Promise<DangerZoneEvent[]> {
+  async checkDangerZones(
+    child: Child,
+    at: Date = new Date(),
+  ): Promise<DangerZoneEvent[]> {
     if (!child.location) {
       return [];
     }
 
     // Get all active danger zones for this child's parent(s)
     const parentIds = [child.parent, ...child.linkedParents];
-    const dangerZones = await this.dangerZoneModel.find({
-      parent: { $in: parentIds },
-      status: DangerZoneStatus.ACTIVE,
-      $or: [
-        { children: { $size: 0 } }, // Applies to all children
-        { children: (child as any)._id }, // Specifically includes this child
-      ],
-    }).exec();
+    const dangerZones = await this.dangerZoneModel
+      .find({
+        parent: { $in: parentIds },
+        status: DangerZoneStatus.ACTIVE,
+        $or: [
+          { children: { $size: 0 } }, // Applies to all children
+          { children: (child as any)._id }, // Specifically includes this child
+        ],
+      })
+      .exec();
 
     const events: DangerZoneEvent[] = [];
 
     for (const zone of dangerZones) {
-      const distance = this.calculateDistance(
-        child.location.lat,
-        child.location.lng,
-        zone.center.lat,
-        zone.center.lng,
-      );
+      // Ignore zones that are not monitored right now
+      if (!this.isZoneScheduledAt(zone, at)) {
+        continue;
+      }
 
-      const isInsideZone = distance <= zone.radiusMeters;
+      // Too imprecise to tell which side of the boundary the child is on: keep the previous state
+      if (this.isAmbiguousFix(zone, child.location)) {
+        continue;
+      }
 
-      // Get last event for this child-zone pair
-      const lastEvent = await this.dangerZoneEventModel
-        .findOne({ child: (child as any)._id, dangerZone: zone._id })
-        .sort({ createdAt: -1 })
+      const childId = (child as any)._id;
+      const state = await this.dangerZoneStateModel
+        .findOne({ child: childId, dangerZone: zone._id })
         .exec();
 
-      const wasInsideZone = lastEvent?.type === DangerZoneEventType.ENTER;
-
-      // Detect state change
-      if (isInsideZone && !wasInsideZone) {
-        // Child entered zone
-        if (zone.notifyOnEntry) {
-          const event = await this.dangerZoneEventModel.create({
-            child: (child as any)._id,
-            dangerZone: zone._id,
-            type: DangerZoneEventType.ENTER,
-            location: child.location,
-            notificationSent: false,
-          });
-          events.push(event);
+      // Zones without a state yet (tracked before hysteresis existed) start from the last event
+      let wasInsideZone: boolean;
+      if (state) {
+        wasInsideZone = state.inside;
+      } else {
+        const lastEvent = await this.dangerZoneEventModel
+          .findOne({ child: childId, dangerZone: zone._id })
+          .sort({ createdAt: -1 })
+          .exec();
+        wasInsideZone = lastEvent?.type === DangerZoneEventType.ENTER;
+      }
+
+      // Within the buffer band around the boundary the confirmed state is kept
+      const isInsideZone = this.isInsideZone(zone, child.location);
+      const buffer = zone.boundaryBufferMeters ?? 0;
+      const isInside =
+        isInsideZone !== wasInsideZone &&
+        buffer > 0 &&
+        this.distanceToBoundary(zone, child.location) < buffer
+          ? wasInsideZone
+          : isInsideZone;
+
+      if (isInside === wasInsideZone) {
+        // Back on the confirmed side: drop any pending transition
+        if (state?.pendingInside != null) {
+          await this.dangerZoneStateModel.updateOne(
+            { _id: state._id },
+            {
+              $set: {
+                pendingInside: null,
+                pendingSince: null,
+                pendingLocation: null,
+              },
+            },
+          );
         }
-      } else if (!isInsideZone && wasInsideZone) {
-        // Child exited zone
-        if (zone.notifyOnExit) {
-          const event = await this.dangerZoneEventModel.create({
-            child: (child as any)._id,
-            dangerZone: zone._id,
-            type: DangerZoneEventType.EXIT,
-            location: child.location,
-            notificationSent: false,
-          });
-          events.push(event);
+        continue;
+      }
+
+      // Transition observed: it starts pending and is confirmed once it has held for the dwell time
+      const isSamePending =
+        state?.pendingInside === isInside && !!state?.pendingSince;
+      const pendingSince = isSamePending ? new Date(state.pendingSince!) : at;
+      const pendingLocation =
+        isSamePending && state.pendingLocation
+          ? state.pendingLocation
+          : { lat: child.location.lat, lng: child.location.lng };
+      const dwellMs = (zone.dwellTimeSeconds ?? 0) * 1000;
+
+      if (at.getTime() - pendingSince.getTime() < dwellMs) {
+        if (!isSamePending) {
+          await this.dangerZoneStateModel.updateOne(
+            { child: childId, dangerZone: zone._id },
+            {
+              $set: {
+                inside: wasInsideZone,
+                pendingInside: isInside,
+                pendingSince,
+                pendingLocation,
+              },
+            },
+            { upsert: true },
+          );
         }
+        continue;
+      }
+
+      await this.dangerZoneStateModel.updateOne(
+        { child: childId, dangerZone: zone._id },
+        {
+          $set: {
+            inside: isInside,
+            pendingInside: null,
+            pendingSince: null,
+            pendingLocation: null,
+          },
+        },
+        { upsert: true },
+      );
+
+      // The transition happened when it was first seen, not when the dwell time ran out
+      // Every transition is recorded so inside/outside does not depend on the notify flags
+      // (a SAFE zone never notifies on entry but must still know the child was inside)
+      const event = await this.dangerZoneEventModel.create({
+        child: childId,
+        dangerZone: zone._id,
+        type: isInside ? DangerZoneEventType.ENTER : DangerZoneEventType.EXIT,
+        location: pendingLocation,
+        occurredAt: pendingSince,
+        notificationSent: false,
+      });
+      if (isInside ? zone.notifyOnEntry : zone.notifyOnExit) {
+        events.push(event);
       }
     }
 
@@ -245,7 +638,10 @@ export class DangerZoneService {
   /**
    * Get all events for a danger zone
    */
-  async getZoneEvents(zoneId: string, currentUser: any): Promise<DangerZoneEvent[]> {
+  async getZoneEvents(
+    zoneId: string,
+    currentUser: any,
+  ): Promise<DangerZoneEvent[]> {
     const dangerZone = await this.dangerZoneModel.findById(zoneId);
 
     if (!dangerZone) {
@@ -253,8 +649,13 @@ export class DangerZoneService {
     }
 
     // Check ownership
-    if (currentUser.role !== UserRole.ADMIN && dangerZone.parent.toString() !== currentUser.id) {
-      throw new ForbiddenException('You can only access events for your own danger zones');
+    if (
+      currentUser.role !== UserRole.ADMIN &&
+      dangerZone.parent.toString() !== currentUser.id
+    ) {
+      throw new ForbiddenException(
+        'You can only access events for your own danger zones',
+      );
     }
 
     return this.dangerZoneEventModel
@@ -270,37 +671,124 @@ export class DangerZoneService {
    * Mark event notification as sent
    */
   async markNotificationSent(eventId: string): Promise<void> {
-    await this.dangerZoneEventModel.findByIdAndUpdate(eventId, { notificationSent: true });
+    await this.dangerZoneEventModel.findByIdAndUpdate(eventId, {
+      notificationSent: true,
+    });
   }
 
   /**
    * Get active zones for a specific child
    */
-  async getChildActiveZones(childId: string, currentUser: any): Promise<DangerZone[]> {
+  async getChildActiveZones(
+    childId: string,
+    currentUser: any,
+  ): Promise<DangerZone[]> {
     const child = await this.childModel.findById(childId);
-    
+
     if (!child) {
       throw new NotFoundException('Child not found');
     }
 
     // Check access
     const isParent = child.parent.toString() === currentUser.id;
-    const isLinkedParent = child.linkedParents.some(p => p.toString() === currentUser.id);
-    
+    const isLinkedParent = child.linkedParents.some(
+      (p) => p.toString() === currentUser.id,
+    );
+
     if (currentUser.role !== UserRole.ADMIN && !isParent && !isLinkedParent) {
       throw new ForbiddenException('You can only access your own children');
     }
 
     const parentIds = [child.parent, ...child.linkedParents];
-    
-    return this.dangerZoneModel.find({
-      parent: { $in: parentIds },
-      status: DangerZoneStatus.ACTIVE,
-      $or: [
-        { children: { $size: 0 } },
-        { children: (child as any)._id },
-      ],
-    }).populate('parent', '-password').exec();
+
+    return this.dangerZoneModel
+      .find({
+        parent: { $in: parentIds },
+        status: DangerZoneStatus.ACTIVE,
+        $or: [{ children: { $size: 0 } }, { children: (child as any)._id }],
+      })
+      .populate('parent', '-password')
+      .exec();
   }
-}
 
+  /**
+   * Get the safe zone status of a child: which safe zones they are in,
+   * and whether they are currently outside all of them
+   */
+  async getChildSafeZoneStatus(
+    childId: string,
+    currentUser: any,
+  ): Promise<any> {
+    const child = await this.childModel.findById(childId);
+
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    // Check access
+    const isParent = child.parent.toString() === currentUser.id;
+    const isLinkedParent = child.linkedParents.some(
+      (p) => p.toString() === currentUser.id,
+    );
+
+    if (currentUser.role !== UserRole.ADMIN && !isParent && !isLinkedParent) {
+      throw new ForbiddenException('You can only access your own children');
+    }
+
+    const parentIds = [child.parent, ...child.linkedParents];
+
+    const safeZones = await this.dangerZoneModel
+      .find({
+        parent: { $in: parentIds },
+        status: DangerZoneStatus.ACTIVE,
+        kind: ZoneKind.SAFE,
+        $or: [{ children: { $size: 0 } }, { children: child._id }],
+      })
+      .exec();
+
+    const location =
+      child.location?.lat != null && child.location?.lng != null
+        ? child.location
+        : null;
+    const now = new Date();
+    const monitoredSafeZones = safeZones.filter((zone) =>
+      this.isZoneScheduledAt(zone, now),
+    );
+    const uncertainSafeZones = location
+      ? monitoredSafeZones.filter((zone) => this.isAmbiguousFix(zone, location))
+      : [];
+    const insideSafeZones = location
+      ? monitoredSafeZones.filter(
+          (zone) =>
+            !uncertainSafeZones.includes(zone) &&
+            this.isInsideZone(zone, location),
+        )
+      : [];
+
+    return {
+      childId,
+      location,
+      safeZoneCount: monitoredSafeZones.length,
+      insideSafeZones: insideSafeZones.map((zone) => ({
+        _id: zone._id,
+        name: zone.name,
+      })),
+      // Zones whose boundary lies within the fix's accuracy radius
+      uncertainSafeZones: uncertainSafeZones.map((zone) => ({
+        _id: zone._id,
+        name: zone.name,
+      })),
+      // null when it cannot be determined (no location yet, no safe zone monitored right now,
+      // or not inside any zone for sure while the fix is too imprecise for some of them)
+      isOutsideAllSafeZones:
+        location && monitoredSafeZones.length > 0
+          ? insideSafeZones.length > 0
+            ? false
+            : uncertainSafeZones.length > 0
+              ? null
+              : true
+          : null,
+      evaluatedAt: now,
+    };
+  }
+}
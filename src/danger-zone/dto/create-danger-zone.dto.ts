@@ -1,7 +1,25 @@
-import { IsString, IsNotEmpty, IsNumber, Min, Max, IsOptional, IsArray, IsBoolean, IsEnum, ValidateNested } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  Min,
+  Max,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  ValidateNested,
+  ValidateIf,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsInt,
+  IsTimeZone,
+  Matches,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Types } from 'mongoose';
+import { DangerZoneShape, ZoneKind } from '../schemas/danger-zone.schema';
 
 class CoordinatesDto {
   @ApiProperty({ example: 33.5731, description: 'Latitude' })
@@ -17,45 +35,185 @@ class CoordinatesDto {
   lng: number;
 }
 
+class ScheduleWindowDto {
+  @ApiProperty({
+    example: [1, 2, 3, 4, 5],
+    description:
+      'Days of the week the window starts on (0 = Sunday ... 6 = Saturday)',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  days: number[];
+
+  @ApiProperty({
+    example: '17:00',
+    description: 'Start time (HH:mm, zone timezone)',
+  })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'startTime must be in HH:mm format',
+  })
+  startTime: string;
+
+  @ApiProperty({
+    example: '23:00',
+    description:
+      'End time (HH:mm, zone timezone). Earlier than startTime means the window ends the next day',
+  })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'endTime must be in HH:mm format',
+  })
+  endTime: string;
+}
+
 export class CreateDangerZoneDto {
-  @ApiProperty({ example: 'School Area', description: 'Name of the danger zone' })
+  @ApiProperty({
+    example: 'School Area',
+    description: 'Name of the danger zone',
+  })
   @IsString()
   @IsNotEmpty()
   name: string;
 
-  @ApiPropertyOptional({ example: 'Alert when child is near school during non-school hours', description: 'Description of the danger zone' })
+  @ApiPropertyOptional({
+    example: 'Alert when child is near school during non-school hours',
+    description: 'Description of the danger zone',
+  })
   @IsString()
   @IsOptional()
   description?: string;
 
-  @ApiProperty({ type: CoordinatesDto, description: 'Center coordinates of the danger zone' })
+  @ApiPropertyOptional({
+    enum: ZoneKind,
+    example: ZoneKind.DANGER,
+    description:
+      'DANGER zones alert when a child enters, SAFE zones (home, school) alert when a child leaves',
+    default: ZoneKind.DANGER,
+  })
+  @IsEnum(ZoneKind)
+  @IsOptional()
+  kind?: ZoneKind;
+
+  @ApiPropertyOptional({
+    enum: DangerZoneShape,
+    example: DangerZoneShape.CIRCLE,
+    description: 'Shape of the zone',
+    default: DangerZoneShape.CIRCLE,
+  })
+  @IsEnum(DangerZoneShape)
+  @IsOptional()
+  shape?: DangerZoneShape;
+
+  @ApiPropertyOptional({
+    type: CoordinatesDto,
+    description: 'Center coordinates of the danger zone (required for CIRCLE)',
+  })
+  @ValidateIf((o) => o.shape !== DangerZoneShape.POLYGON)
   @ValidateNested()
   @Type(() => CoordinatesDto)
-  center: CoordinatesDto;
+  center?: CoordinatesDto;
 
-  @ApiProperty({ example: 500, description: 'Radius in meters (10m to 50km)', minimum: 10, maximum: 50000 })
+  @ApiPropertyOptional({
+    example: 500,
+    description: 'Radius in meters (10m to 50km, required for CIRCLE)',
+    minimum: 10,
+    maximum: 50000,
+  })
+  @ValidateIf((o) => o.shape !== DangerZoneShape.POLYGON)
   @IsNumber()
   @Min(10)
   @Max(50000)
-  radiusMeters: number;
+  radiusMeters?: number;
 
-  @ApiPropertyOptional({ 
-    type: [String], 
-    description: 'Child IDs to monitor (empty array = all children)', 
-    example: [] 
+  @ApiPropertyOptional({
+    type: [CoordinatesDto],
+    description:
+      'Polygon vertices in order, 3 to 100 points (required for POLYGON). The polygon is closed automatically.',
+    example: [
+      { lat: 33.5731, lng: -7.6598 },
+      { lat: 33.5745, lng: -7.6571 },
+      { lat: 33.5712, lng: -7.6553 },
+    ],
+  })
+  @ValidateIf((o) => o.shape === DangerZoneShape.POLYGON)
+  @IsArray()
+  @ArrayMinSize(3)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => CoordinatesDto)
+  polygon?: CoordinatesDto[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Child IDs to monitor (empty array = all children)',
+    example: [],
   })
   @IsArray()
   @IsOptional()
   children?: string[];
 
-  @ApiPropertyOptional({ example: true, description: 'Send notification when child enters zone' })
+  @ApiPropertyOptional({
+    type: [ScheduleWindowDto],
+    description:
+      'Weekly windows during which the zone is monitored (empty = always monitored)',
+    example: [{ days: [1, 2, 3, 4, 5], startTime: '17:00', endTime: '23:00' }],
+  })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => ScheduleWindowDto)
+  schedules?: ScheduleWindowDto[];
+
+  @ApiPropertyOptional({
+    example: 'Africa/Casablanca',
+    description: 'IANA timezone used to evaluate schedules',
+    default: 'UTC',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    example: 120,
+    description:
+      'Seconds a child must stay inside (or outside) before ENTER (or EXIT) is recorded',
+    default: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(3600)
+  @IsOptional()
+  dwellTimeSeconds?: number;
+
+  @ApiPropertyOptional({
+    example: 25,
+    description:
+      'Meters past the boundary a child must be to change state (absorbs GPS jitter along the edge)',
+    default: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  @IsOptional()
+  boundaryBufferMeters?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Send notification when child enters zone (default true, false for SAFE zones)',
+  })
   @IsBoolean()
   @IsOptional()
   notifyOnEntry?: boolean;
 
-  @ApiPropertyOptional({ example: false, description: 'Send notification when child exits zone' })
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Send notification when child exits zone (default false, true for SAFE zones)',
+  })
   @IsBoolean()
   @IsOptional()
   notifyOnExit?: boolean;
 }
-
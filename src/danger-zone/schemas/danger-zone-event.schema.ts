@@ -30,13 +30,16 @@ export class DangerZoneEvent {
   })
   location: { lat: number; lng: number };
 
+  @Prop({ type: Date, default: () => new Date() })
+  occurredAt: Date; // time of the fix that triggered the event (earlier than createdAt for replayed offline fixes)
+
   @Prop({ default: false })
   notificationSent: boolean;
 }
 
-export const DangerZoneEventSchema = SchemaFactory.createForClass(DangerZoneEvent);
+export const DangerZoneEventSchema =
+  SchemaFactory.createForClass(DangerZoneEvent);
 
 // Indexes for efficient queries
 DangerZoneEventSchema.index({ child: 1, dangerZone: 1, createdAt: -1 });
 DangerZoneEventSchema.index({ dangerZone: 1, createdAt: -1 });
-
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type DangerZoneStateDocument = DangerZoneState & Document;
+
+/**
+ * Confirmed inside/outside state of a child for a zone, plus the transition
+ * waiting for the zone's dwell time before it becomes an ENTER/EXIT event
+ */
+@Schema({ timestamps: true })
+export class DangerZoneState {
+  @Prop({ type: Types.ObjectId, ref: 'Child', required: true })
+  child: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'DangerZone', required: true })
+  dangerZone: Types.ObjectId;
+
+  @Prop({ default: false })
+  inside: boolean; // confirmed state
+
+  @Prop({ type: Boolean, default: null })
+  pendingInside: boolean | null; // state observed but not confirmed yet (null = no pending transition)
+
+  @Prop({ type: Date, default: null })
+  pendingSince: Date | null; // time of the first fix of the pending transition
+
+  @Prop({
+    type: {
+      lat: { type: Number },
+      lng: { type: Number },
+    },
+    default: null,
+  })
+  pendingLocation: { lat: number; lng: number } | null; // where the pending transition was first seen
+}
+
+export const DangerZoneStateSchema =
+  SchemaFactory.createForClass(DangerZoneState);
+
+// One state per child and zone
+DangerZoneStateSchema.index({ child: 1, dangerZone: 1 }, { unique: true });
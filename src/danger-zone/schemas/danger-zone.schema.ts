@@ -10,6 +10,28 @@ export enum DangerZoneStatus {
   INACTIVE = 'INACTIVE',
 }
 
+export enum ZoneKind {
+  DANGER = 'DANGER', // entering is the alert case
+  SAFE = 'SAFE', // leaving is the alert case (home, school)
+}
+
+export enum DangerZoneShape {
+  CIRCLE = 'CIRCLE',
+  POLYGON = 'POLYGON',
+}
+
+/**
+ * Circle geometry is required unless the zone is a polygon.
+ * Update validators run with the query as `this`, so read the shape from the update there.
+ */
+function requiredForCircle(this: any): boolean {
+  const shape =
+    typeof this?.getUpdate === 'function'
+      ? (this.getUpdate()?.$set?.shape ?? this.getUpdate()?.shape)
+      : this?.shape;
+  return shape !== DangerZoneShape.POLYGON;
+}
+
 @Schema({ timestamps: true })
 export class DangerZone {
   @Prop({ required: true })
@@ -21,33 +43,77 @@ export class DangerZone {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   parent: Types.ObjectId;
 
+  @Prop({ enum: ZoneKind, default: ZoneKind.DANGER })
+  kind: ZoneKind;
+
+  @Prop({ enum: DangerZoneShape, default: DangerZoneShape.CIRCLE })
+  shape: DangerZoneShape;
+
   @Prop({
     type: {
       lat: { type: Number, required: true },
       lng: { type: Number, required: true },
     },
-    required: true,
+    required: requiredForCircle,
   })
-  center: { lat: number; lng: number };
+  center: { lat: number; lng: number }; // circle zones only
 
-  @Prop({ required: true, min: 10, max: 50000 }) // radius in meters (10m to 50km)
+  @Prop({
+    min: 10,
+    max: 50000,
+    required: requiredForCircle,
+  }) // radius in meters (10m to 50km), circle zones only
   radiusMeters: number;
 
+  @Prop({
+    type: [
+      {
+        _id: false,
+        lat: { type: Number, required: true },
+        lng: { type: Number, required: true },
+      },
+    ],
+    default: undefined,
+  })
+  polygon?: { lat: number; lng: number }[]; // polygon zones only, vertices in order (3+)
+
   @Prop({ type: [{ type: Types.ObjectId, ref: 'Child' }], default: [] })
   children: Types.ObjectId[]; // if empty, applies to all parent's children
 
   @Prop({ enum: DangerZoneStatus, default: DangerZoneStatus.ACTIVE })
   status: DangerZoneStatus;
 
+  // Recurring weekly windows during which the zone is evaluated (empty = always)
+  @Prop({
+    type: [
+      {
+        _id: false,
+        days: { type: [Number], required: true }, // 0 = Sunday ... 6 = Saturday
+        startTime: { type: String, required: true }, // "HH:mm"
+        endTime: { type: String, required: true }, // "HH:mm", before startTime = overnight window
+      },
+    ],
+    default: [],
+  })
+  schedules: { days: number[]; startTime: string; endTime: string }[];
+
+  @Prop({ default: 'UTC' })
+  timezone: string; // IANA timezone used to evaluate schedules, e.g. "Africa/Casablanca"
+
+  @Prop({ default: 0, min: 0, max: 3600 })
+  dwellTimeSeconds: number; // how long a transition must hold before ENTER/EXIT is recorded (0 = immediately)
+
+  @Prop({ default: 0, min: 0, max: 1000 })
+  boundaryBufferMeters: number; // how far past the boundary the child must be to change state
+
   @Prop({ default: true })
-  notifyOnEntry: boolean;
+  notifyOnEntry: boolean; // defaults to false for SAFE zones
 
   @Prop({ default: false })
-  notifyOnExit: boolean;
+  notifyOnExit: boolean; // defaults to true for SAFE zones
 }
 
 export const DangerZoneSchema = SchemaFactory.createForClass(DangerZone);
 
 // Index for efficient parent queries
 DangerZoneSchema.index({ parent: 1, status: 1 });
-
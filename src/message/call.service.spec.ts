@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { CallService } from './call.service';
+import { MessageService } from './message.service';
+import { Call, CallStatus } from './schemas/call.schema';
+import { Room } from './schemas/room.schema';
+import { Child } from '../child/schemas/child.schema';
+import { ChatGateway } from './gateway/chat.gateway';
+import { NotificationService } from '../notification/notification.service';
+
+describe('CallService', () => {
+  let service: CallService;
+  let openCall: any;
+  let messageService: any;
+  let notificationService: any;
+
+  const roomId = new Types.ObjectId();
+  const childId = new Types.ObjectId();
+  const parentId = new Types.ObjectId();
+  const parent = { id: parentId.toString(), type: 'user' };
+  const child = { id: childId.toString(), type: 'child' };
+
+  beforeEach(async () => {
+    openCall = null;
+    const callModel = {
+      findOne: jest.fn(() => ({
+        sort: jest.fn(() => Promise.resolve(openCall)),
+      })),
+      create: jest.fn((data: any) => {
+        openCall = {
+          _id: new Types.ObjectId(),
+          startedAt: null,
+          endedAt: null,
+          durationSec: null,
+          ...data,
+          save: jest.fn(),
+          toObject() {
+            return this;
+          },
+        };
+        return Promise.resolve(openCall);
+      }),
+    };
+    messageService = {
+      assertCanAccessRoom: jest.fn().mockResolvedValue(undefined),
+      sendMissedCall: jest.fn().mockResolvedValue({ type: 'MISSED_CALL' }),
+      getParticipantProfile: jest
+        .fn()
+        .mockResolvedValue({ firstName: 'Sara', lastName: 'B' }),
+    };
+    notificationService = {
+      sendMissedCallAlert: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CallService,
+        {
+          provide: getModelToken(Call.name),
+          useValue: callModel,
+        },
+        {
+          provide: getModelToken(Room.name),
+          useValue: {
+            findById: jest.fn(() => ({
+              select: jest.fn().mockResolvedValue({
+                _id: roomId,
+                parent: parentId,
+                child: childId,
+              }),
+            })),
+          },
+        },
+        {
+          provide: getModelToken(Child.name),
+          useValue: {
+            findById: jest
+              .fn()
+              .mockResolvedValue({ _id: childId, firstName: 'Alice' }),
+          },
+        },
+        {
+          provide: MessageService,
+          useValue: messageService,
+        },
+        {
+          provide: ChatGateway,
+          useValue: { broadcastCall: jest.fn(), broadcastMessage: jest.fn() },
+        },
+        {
+          provide: NotificationService,
+          useValue: notificationService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CallService>(CallService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('rings, connects and records the duration of an answered call', async () => {
+    const { call: ringing } = await service.trackSignal(
+      roomId.toString(),
+      'call-request',
+      parent,
+      child.id,
+    );
+    expect(ringing!.status).toBe(CallStatus.RINGING);
+    expect(ringing!.participants.map((p) => p.participantModel)).toEqual([
+      'User',
+      'Child',
+    ]);
+
+    await service.trackSignal(roomId.toString(), 'call-accepted', child);
+    expect(openCall.status).toBe(CallStatus.ACCEPTED);
+    openCall.startedAt = new Date(Date.now() - 90_000);
+
+    const { changed } = await service.trackSignal(
+      roomId.toString(),
+      'call-ended',
+      child,
+    );
+    expect(changed).toBe(true);
+    expect(openCall.status).toBe(CallStatus.ENDED);
+    expect(openCall.durationSec).toBe(90);
+    expect(openCall.participants.every((p: any) => p.leftAt)).toBe(true);
+  });
+
+  it("does not connect a call on the caller's own answer", async () => {
+    await service.trackSignal(
+      roomId.toString(),
+      'call-request',
+      parent,
+      child.id,
+    );
+
+    const { changed } = await service.trackSignal(
+      roomId.toString(),
+      'answer',
+      parent,
+    );
+
+    expect(changed).toBe(false);
+    expect(openCall.status).toBe(CallStatus.RINGING);
+    expect(openCall.startedAt).toBeNull();
+  });
+
+  it('keeps the ringing call when the callee calls back at the same time', async () => {
+    const { call: ringing } = await service.trackSignal(
+      roomId.toString(),
+      'call-request',
+      parent,
+      child.id,
+    );
+
+    const { call, changed } = await service.trackSignal(
+      roomId.toString(),
+      'call-request',
+      child,
+      parent.id,
+    );
+
+    expect(changed).toBe(false);
+    expect(call).toBe(ringing);
+    expect(openCall.status).toBe(CallStatus.RINGING);
+  });
+
+  it('marks a call the caller hangs up while ringing as missed', async () => {
+    await service.trackSignal(
+      roomId.toString(),
+      'call-request',
+      parent,
+      child.id,
+    );
+    await service.trackSignal(roomId.toString(), 'call-ended', parent);
+
+    expect(openCall.status).toBe(CallStatus.MISSED);
+    expect(openCall.durationSec).toBeNull();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(messageService.sendMissedCall).toHaveBeenCalledWith(openCall);
+    expect(notificationService.sendMissedCallAlert).toHaveBeenCalledWith(
+      child.id,
+      'Child',
+      expect.objectContaining({ roomId: roomId.toString() }),
+    );
+  });
+});
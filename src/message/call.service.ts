@@ -0,0 +1,362 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  Inject,
+  forwardRef,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Call,
+  CallDocument,
+  CallParticipant,
+  CallStatus,
+} from './schemas/call.schema';
+import { Room, RoomDocument } from './schemas/room.schema';
+import { MessageService } from './message.service';
+import { ChatGateway } from './gateway/chat.gateway';
+import { Child, ChildDocument } from '../child/schemas/child.schema';
+import { NotificationService } from '../notification/notification.service';
+
+/**
+ * Signals that move a call between states
+ * REST/`signal` CALL_OFFER and CALL_ANSWER map to offer and answer; ICE candidates never do
+ */
+export type CallSignal =
+  | 'call-request'
+  | 'call-accepted'
+  | 'call-rejected'
+  | 'call-ended'
+  | 'offer'
+  | 'answer';
+
+export const CALL_SIGNALS: ReadonlySet<string> = new Set<CallSignal>([
+  'call-request',
+  'call-accepted',
+  'call-rejected',
+  'call-ended',
+  'offer',
+  'answer',
+]);
+
+const OPEN_STATUSES = [CallStatus.RINGING, CallStatus.ACCEPTED];
+
+// How often calls ringing for too long are looked for
+const RING_SWEEP_INTERVAL_MS = 10 * 1000;
+
+@Injectable()
+export class CallService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CallService.name);
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectModel(Call.name) private readonly callModel: Model<CallDocument>,
+    @InjectModel(Room.name) private readonly roomModel: Model<RoomDocument>,
+    @InjectModel(Child.name) private readonly childModel: Model<ChildDocument>,
+    private readonly messageService: MessageService,
+    @Inject(forwardRef(() => ChatGateway))
+    private readonly chatGateway: ChatGateway,
+    @Inject(forwardRef(() => NotificationService))
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(() => {
+      this.sweepUnansweredCalls().catch((error) => {
+        this.logger.error('Error checking unanswered calls:', error);
+      });
+    }, RING_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * How long a call may ring before it is missed (env CALL_RING_TIMEOUT_SECONDS)
+   */
+  private getRingTimeoutMs(): number {
+    const seconds = parseInt(process.env.CALL_RING_TIMEOUT_SECONDS || '45', 10);
+    return (Number.isFinite(seconds) && seconds > 0 ? seconds : 45) * 1000;
+  }
+
+  private participantOf(
+    currentUser: any,
+  ): Pick<CallParticipant, 'participantModel' | 'participant'> {
+    return {
+      participantModel: currentUser.type === 'child' ? 'Child' : 'User',
+      participant: new Types.ObjectId(currentUser.id),
+    };
+  }
+
+  /**
+   * Apply a call signal from the current user to the room's ongoing call
+   * Returns the call it belongs to (if any) and whether its state changed
+   */
+  async trackSignal(
+    roomId: string,
+    signal: CallSignal,
+    currentUser: any,
+    targetId?: string | null,
+  ): Promise<{ call: CallDocument | null; changed: boolean }> {
+    await this.messageService.assertCanAccessRoom(roomId, currentUser);
+    const room = await this.roomModel.findById(roomId).select('child');
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    const sender = this.participantOf(currentUser);
+    const now = new Date();
+    let call = await this.callModel
+      .findOne({ room: room._id, status: { $in: OPEN_STATUSES } })
+      .sort({ createdAt: -1 });
+
+    switch (signal) {
+      case 'call-request':
+      case 'offer': {
+        if (call) {
+          // Offer inside a call is a renegotiation; a request while it rings (a retry, or both
+          // sides calling at once) belongs to the ringing call, which nobody rejected
+          if (signal === 'offer' || call.status === CallStatus.RINGING) {
+            return { call, changed: false };
+          }
+          // A new call request means the previous one was abandoned without call-ended
+          this.close(call, sender.participant, now);
+          await call.save();
+          this.broadcast(call);
+        }
+
+        const participants: CallParticipant[] = [
+          { ...sender, joinedAt: now, leftAt: null },
+        ];
+        if (
+          targetId &&
+          Types.ObjectId.isValid(targetId) &&
+          targetId !== currentUser.id
+        ) {
+          const target = new Types.ObjectId(targetId);
+          participants.push({
+            participantModel: room.child.equals(target) ? 'Child' : 'User',
+            participant: target,
+            joinedAt: null,
+            leftAt: null,
+          });
+        }
+
+        call = await this.callModel.create({
+          room: room._id,
+          callerModel: sender.participantModel,
+          caller: sender.participant,
+          participants,
+          status: CallStatus.RINGING,
+        });
+        this.logger.log(
+          `📞 Call ${String(call._id)} ringing in room ${roomId}`,
+        );
+        return { call, changed: true };
+      }
+
+      case 'call-accepted':
+      case 'answer': {
+        // Only a callee can pick up: a caller's client echoing answer does not connect the call
+        if (
+          !call ||
+          call.status !== CallStatus.RINGING ||
+          call.caller.equals(sender.participant)
+        ) {
+          return { call, changed: false };
+        }
+        call.status = CallStatus.ACCEPTED;
+        call.startedAt = now;
+        this.join(call, sender, now);
+        break;
+      }
+
+      case 'call-rejected': {
+        if (!call || call.status !== CallStatus.RINGING) {
+          return { call, changed: false };
+        }
+        call.status = CallStatus.REJECTED;
+        call.endedAt = now;
+        call.endedBy = sender.participant;
+        break;
+      }
+
+      case 'call-ended': {
+        if (!call) {
+          return { call: null, changed: false };
+        }
+        this.close(call, sender.participant, now);
+        break;
+      }
+    }
+
+    await call.save();
+    if (call.status === CallStatus.MISSED) {
+      this.onMissed(call);
+    }
+    return { call, changed: true };
+  }
+
+  /**
+   * Mark calls nobody answered within the ring timeout as missed
+   * The status filter keeps a call answered meanwhile from being missed
+   */
+  async sweepUnansweredCalls(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.getRingTimeoutMs());
+    const ringing = await this.callModel
+      .find({ status: CallStatus.RINGING, createdAt: { $lte: cutoff } })
+      .select('_id')
+      .lean();
+
+    let missed = 0;
+    for (const { _id } of ringing) {
+      const call = await this.callModel.findOneAndUpdate(
+        { _id, status: CallStatus.RINGING },
+        { $set: { status: CallStatus.MISSED, endedAt: now } },
+        { new: true },
+      );
+      if (!call) {
+        continue;
+      }
+      missed++;
+      this.broadcast(call);
+      this.onMissed(call);
+    }
+    return missed;
+  }
+
+  private broadcast(call: CallDocument): void {
+    this.chatGateway.broadcastCall(call.room.toString(), call.toObject());
+  }
+
+  /**
+   * Post the missed call in the room timeline and notify the callees (async, errors logged)
+   */
+  private onMissed(call: CallDocument): void {
+    this.recordMissedCall(call).catch((error) => {
+      this.logger.error(
+        `Error handling missed call ${String(call._id)}:`,
+        error,
+      );
+    });
+  }
+
+  private async recordMissedCall(call: CallDocument): Promise<void> {
+    const roomId = call.room.toString();
+    const message = await this.messageService.sendMissedCall(call);
+    this.chatGateway.broadcastMessage(roomId, message);
+
+    const room = await this.roomModel
+      .findById(call.room)
+      .select('child participants');
+    const child = room ? await this.childModel.findById(room.child) : null;
+    if (!room || !child) {
+      return;
+    }
+
+    // Whoever was rung; without a known target it is every other room member
+    let callees = call.participants
+      .filter((p) => !p.joinedAt && !p.participant.equals(call.caller))
+      .map((p) => ({
+        model: p.participantModel,
+        id: p.participant.toString(),
+      }));
+    if (callees.length === 0) {
+      callees = (room.participants ?? [])
+        .filter((p) => !p.participant.equals(call.caller))
+        .map((p) => ({
+          model: p.participantModel,
+          id: p.participant.toString(),
+        }));
+    }
+
+    const caller = await this.messageService.getParticipantProfile({
+      id: call.caller.toString(),
+      type: call.callerModel === 'Child' ? 'child' : 'user',
+    });
+
+    for (const callee of callees) {
+      try {
+        await this.notificationService.sendMissedCallAlert(
+          callee.id,
+          callee.model,
+          {
+            child,
+            caller,
+            call,
+            roomId,
+          },
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to send missed call notification to ${callee.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Close an open call: hanging up while ringing is a missed call (caller) or a rejection (callee)
+   */
+  private close(call: CallDocument, endedBy: Types.ObjectId, now: Date): void {
+    if (call.status === CallStatus.RINGING) {
+      call.status = call.caller.equals(endedBy)
+        ? CallStatus.MISSED
+        : CallStatus.REJECTED;
+    } else {
+      call.status = CallStatus.ENDED;
+      call.durationSec = call.startedAt
+        ? Math.round((now.getTime() - call.startedAt.getTime()) / 1000)
+        : 0;
+    }
+    call.endedAt = now;
+    call.endedBy = endedBy;
+    for (const participant of call.participants) {
+      if (participant.joinedAt && !participant.leftAt) {
+        participant.leftAt = now;
+      }
+    }
+  }
+
+  private join(
+    call: CallDocument,
+    who: Pick<CallParticipant, 'participantModel' | 'participant'>,
+    now: Date,
+  ): void {
+    const existing = call.participants.find((p) =>
+      p.participant.equals(who.participant),
+    );
+    if (existing) {
+      existing.joinedAt = existing.joinedAt ?? now;
+    } else {
+      call.participants.push({ ...who, joinedAt: now, leftAt: null });
+    }
+  }
+
+  /**
+   * Call history of a room (newest first)
+   */
+  async listForRoom(
+    roomId: string,
+    currentUser: any,
+    limit = 50,
+    beforeId?: string,
+  ): Promise<any[]> {
+    await this.messageService.assertCanAccessRoom(roomId, currentUser);
+
+    const query: any = { room: new Types.ObjectId(roomId) };
+    if (beforeId) {
+      query._id = { $lt: new Types.ObjectId(beforeId) };
+    }
+    return this.callModel.find(query).sort({ _id: -1 }).limit(limit).lean();
+  }
+}
@@ -7,11 +7,59 @@ import {
   OnGatewayConnection,
   OnGatewayDisconnect,
 } from '@nestjs/websockets';
-import { Injectable } from '@nestjs/common';
-import { Server, Socket } from 'socket.io';
-import { MessageService } from '../message.service';
+import {
+  Injectable,
+  Inject,
+  forwardRef,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { DefaultEventsMap, Server, Socket } from 'socket.io';
+import { Subscription } from 'rxjs';
+import { Types } from 'mongoose';
+import { ChatParticipant, MessageService } from '../message.service';
+import { CALL_SIGNALS, CallService, CallSignal } from '../call.service';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { SosService } from '../../sos/sos.service';
+import { SessionRevocation, SessionService } from '../../auth/session.service';
+import { JwtPayload } from '../../auth/strategies/jwt.strategy';
+import { ChildService } from '../../child/child.service';
+import { UpdateChildLocationDto } from '../../child/dto/update-child-location.dto';
+import { DeviceHeartbeatDto } from '../../child/dto/device-heartbeat.dto';
+import {
+  ChildLocationFix,
+  LocationProvider,
+  NetworkType,
+} from '../../child/schemas/child.schema';
+import { UserRole } from '../../user/schemas/user.schema';
+import { NotificationService } from '../../notification/notification.service';
+import { MessageType } from '../schemas/message.schema';
+
+/**
+ * What the gateway keeps on an authenticated socket
+ */
+interface ChatSocketData {
+  user?: JwtPayload & { id: string }; // `id` like the REST `@CurrentUser()`
+  profile?: ChatParticipant; // sender shown in typing/presence events
+  chatRooms?: string[]; // joined with joinRoom, announced as left on disconnect
+}
+
+type ChatSocket = Socket<
+  DefaultEventsMap,
+  DefaultEventsMap,
+  DefaultEventsMap,
+  ChatSocketData
+>;
+
+// Messages parents who are not connected get a newMessage notification for
+const NOTIFIED_MESSAGE_TYPES: ReadonlySet<string> = new Set([
+  MessageType.TEXT,
+  MessageType.AUDIO,
+  MessageType.IMAGE,
+  MessageType.VIDEO,
+  MessageType.FILE,
+]);
 
 @Injectable()
 @WebSocketGateway({
@@ -20,9 +68,20 @@ import { ConfigService } from '@nestjs/config';
     credentials: true,
   },
 })
-export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class ChatGateway
+  implements
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleInit,
+    OnModuleDestroy
+{
   @WebSocketServer()
-  server: Server;
+  server: Server<
+    DefaultEventsMap,
+    DefaultEventsMap,
+    DefaultEventsMap,
+    ChatSocketData
+  >;
 
   // ✅ Track userId -> Set of socketIds for targeted messaging
   private userSockets = new Map<string, Set<string>>();
@@ -45,46 +104,127 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   ]);
   private readonly dedupWindowMs = 1_000;
   private recentSignals = new Map<string, number>();
+  private revocationSubscription: Subscription | null = null;
 
   constructor(
     private readonly messageService: MessageService,
+    private readonly callService: CallService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    @Inject(forwardRef(() => SosService))
+    private readonly sosService: SosService,
+    private readonly sessionService: SessionService,
+    @Inject(forwardRef(() => ChildService))
+    private readonly childService: ChildService,
+    @Inject(forwardRef(() => NotificationService))
+    private readonly notificationService: NotificationService,
   ) {}
 
-  async handleConnection(client: Socket) {
+  onModuleInit() {
+    this.revocationSubscription = this.sessionService.revoked$.subscribe(
+      (revocation) => {
+        this.disconnectRevokedSockets(revocation);
+      },
+    );
+  }
+
+  onModuleDestroy() {
+    this.revocationSubscription?.unsubscribe();
+    this.revocationSubscription = null;
+  }
+
+  /**
+   * Close the sockets opened with a session that was just revoked (or all of the subject's sockets)
+   * The session is only checked on connect, so they would keep receiving room messages otherwise
+   */
+  private disconnectRevokedSockets({
+    subjectId,
+    sessionId,
+  }: SessionRevocation): void {
+    for (const socketId of [...(this.userSockets.get(subjectId) ?? [])]) {
+      const socket = this.server?.sockets.sockets.get(socketId);
+      if (!socket || (sessionId && socket.data.user?.sid !== sessionId)) {
+        continue;
+      }
+      socket.emit('sessionRevoked', {
+        sessionId: socket.data.user?.sid ?? null,
+      });
+      socket.disconnect(true);
+      console.log(
+        `🔒 Socket ${socketId} of ${subjectId} closed: session revoked`,
+      );
+    }
+  }
+
+  async handleConnection(client: ChatSocket) {
     // Extract token from handshake auth or query
     const token = client.handshake.auth?.token || client.handshake.query?.token;
 
     if (token) {
       try {
-        const secret = this.configService.get<string>('JWT_SECRET') || 'your-secret-key-change-in-production';
-        const payload = this.jwtService.verify(token as string, { secret });
-        client.data.user = payload;
+        const secret =
+          this.configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production';
+        const payload = this.jwtService.verify<JwtPayload>(token as string, {
+          secret,
+        });
+        if (
+          payload.sid &&
+          !(await this.sessionService.isActive(payload.sid, payload.sub))
+        ) {
+          console.warn('WebSocket connection with revoked session');
+          return;
+        }
+        // Expose the subject as `id`, like the REST `@CurrentUser()` does
+        client.data.user = { ...payload, id: payload.sub };
 
         // ✅ Track user connection for targeted messaging
-        const userId = payload.id || payload.sub || payload.userId;
+        const userId = payload.sub;
         if (userId) {
           if (!this.userSockets.has(userId)) {
             this.userSockets.set(userId, new Set());
           }
           this.userSockets.get(userId)!.add(client.id);
           console.log(`✅ User ${userId} connected (socket: ${client.id})`);
+
+          // A child's app with an open socket is online
+          if (
+            payload.type === 'child' &&
+            this.userSockets.get(userId)!.size === 1
+          ) {
+            this.childService.setSocketPresence(userId, true).catch((error) => {
+              console.error('Error updating child presence:', error);
+            });
+          }
         }
-      } catch (error) {
+      } catch {
         console.warn('WebSocket connection with invalid token');
       }
     }
   }
 
-  handleDisconnect(client: Socket) {
+  handleDisconnect(client: ChatSocket) {
+    // Rooms are already left at this point: tell the chat rooms this socket was in
+    for (const roomName of client.data.chatRooms ?? []) {
+      this.emitLeftIfGone(client, roomName).catch((error) => {
+        console.error('Error emitting presence:', error);
+      });
+    }
+
     // ✅ Remove from user-socket mapping
     if (client.data.user) {
-      const userId = client.data.user.id || client.data.user.sub || client.data.user.userId;
+      const userId = client.data.user.id;
       if (userId && this.userSockets.has(userId)) {
         this.userSockets.get(userId)!.delete(client.id);
         if (this.userSockets.get(userId)!.size === 0) {
           this.userSockets.delete(userId);
+          if (client.data.user.type === 'child') {
+            this.childService
+              .setSocketPresence(userId, false)
+              .catch((error) => {
+                console.error('Error updating child presence:', error);
+              });
+          }
         }
         console.log(`❌ User ${userId} disconnected (socket: ${client.id})`);
       }
@@ -92,25 +232,44 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   }
 
   /**
-   * Join a room by roomId
+   * Join a room by roomId (room members only)
+   * Others in the room get `presence` with the user's identity
    */
   @SubscribeMessage('joinRoom')
   async onJoinRoom(
-    @ConnectedSocket() client: Socket,
+    @ConnectedSocket() client: ChatSocket,
     @MessageBody() data: { roomId: string },
   ) {
     if (!client.data.user) {
       return { error: 'Unauthorized' };
     }
 
-    client.join(`room:${data.roomId}`);
-    this.server.to(`room:${data.roomId}`).emit('presence', { 
-      userId: client.id, 
-      state: 'joined', 
-      roomId: data.roomId 
+    try {
+      await this.messageService.assertCanAccessRoom(
+        data?.roomId,
+        client.data.user,
+      );
+      if (!client.data.profile) {
+        client.data.profile = await this.messageService.getParticipantProfile(
+          client.data.user,
+        );
+      }
+    } catch (error: any) {
+      return { error: error.message };
+    }
+
+    void client.join(`room:${data.roomId}`);
+    client.data.chatRooms = [
+      ...new Set([...(client.data.chatRooms ?? []), data.roomId]),
+    ];
+    this.server.to(`room:${data.roomId}`).emit('presence', {
+      userId: client.data.user.id,
+      user: client.data.profile,
+      state: 'joined',
+      roomId: data.roomId,
     });
 
-    console.log(`👤 User joined room: ${data.roomId}`);
+    console.log(`👤 User ${client.data.user.id} joined room: ${data.roomId}`);
     return { ok: true, roomId: data.roomId };
   }
 
@@ -119,27 +278,100 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
    */
   @SubscribeMessage('leaveRoom')
   async onLeaveRoom(
-    @ConnectedSocket() client: Socket,
+    @ConnectedSocket() client: ChatSocket,
     @MessageBody() data: { roomId: string },
   ) {
-    client.leave(`room:${data.roomId}`);
-    this.server.to(`room:${data.roomId}`).emit('presence', { 
-      userId: client.id, 
-      state: 'left', 
-      roomId: data.roomId 
-    });
+    if (!client.rooms.has(`room:${data?.roomId}`)) {
+      return { ok: true, roomId: data?.roomId };
+    }
 
-    console.log(`👋 User left room: ${data.roomId}`);
+    void client.leave(`room:${data.roomId}`);
+    client.data.chatRooms = (client.data.chatRooms ?? []).filter(
+      (roomId: string) => roomId !== data.roomId,
+    );
+    await this.emitLeftIfGone(client, data.roomId);
+
+    console.log(`👋 User ${client.data.user?.id} left room: ${data.roomId}`);
     return { ok: true, roomId: data.roomId };
   }
 
+  /**
+   * Tell the room a user left, unless they are still there from another socket
+   */
+  private async emitLeftIfGone(
+    client: ChatSocket,
+    roomId: string,
+  ): Promise<void> {
+    const user = client.data.user;
+    if (!user) {
+      return;
+    }
+    const sockets = await this.server.in(`room:${roomId}`).fetchSockets();
+    if (sockets.some((socket) => socket.data.user?.id === user.id)) {
+      return;
+    }
+    this.server
+      .to(`room:${roomId}`)
+      .emit('typing', { roomId, user: client.data.profile, isTyping: false });
+    this.server.to(`room:${roomId}`).emit('presence', {
+      userId: user.id,
+      user: client.data.profile,
+      state: 'left',
+      roomId,
+    });
+  }
+
+  /**
+   * Typing indicator: `{ roomId, isTyping }` relayed to the other members of the room
+   */
+  @SubscribeMessage('typing')
+  onTyping(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() data: { roomId: string; isTyping: boolean },
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    if (!client.rooms.has(`room:${data?.roomId}`)) {
+      return { error: 'Join the room first' };
+    }
+
+    client.to(`room:${data.roomId}`).emit('typing', {
+      roomId: data.roomId,
+      user: client.data.profile,
+      isTyping: data.isTyping !== false,
+    });
+    return { ok: true };
+  }
+
+  /**
+   * Who is currently in a room (one entry per user, whatever their number of sockets)
+   */
+  async getRoomPresence(roomId: string): Promise<any[]> {
+    const sockets = await this.server.in(`room:${roomId}`).fetchSockets();
+    const online = new Map<string, any>();
+    for (const socket of sockets) {
+      const user = socket.data.user;
+      if (user && !online.has(user.id)) {
+        online.set(
+          user.id,
+          socket.data.profile ?? {
+            id: user.id,
+            type: user.type === 'child' ? 'child' : 'user',
+          },
+        );
+      }
+    }
+    return [...online.values()];
+  }
+
   /**
    * Send a text message via WebSocket (real-time)
    * Also handles WebRTC signaling (call-request, offer, answer, ice-candidate)
    */
   @SubscribeMessage('sendText')
   async onSendText(
-    @ConnectedSocket() client: Socket,
+    @ConnectedSocket() client: ChatSocket,
     @MessageBody() body: any,
   ) {
     if (!client.data.user) {
@@ -150,38 +382,71 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       // Check if this is a WebRTC signaling message
       if (body.messageType === 'webrtc_signal') {
         const normalizedSignalType = (body.signalType ?? '').toLowerCase();
-        console.log(`🔊 WebRTC signal: ${body.signalType} from ${body.senderId} to ${body.targetId}`);
+        console.log(
+          `🔊 WebRTC signal: ${body.signalType} from ${body.senderId} to ${body.targetId}`,
+        );
 
         if (this.isDuplicateSignal(normalizedSignalType, body)) {
-          console.warn(`⚠️ Duplicate WebRTC signal ignored: ${body.signalType} (sender ${body.senderId})`);
+          console.warn(
+            `⚠️ Duplicate WebRTC signal ignored: ${body.signalType} (sender ${body.senderId})`,
+          );
           return { ok: true, type: 'webrtc_signal', deduped: true };
         }
 
+        // Keep the call session in sync; a tracking failure must not break the relay
+        if (CALL_SIGNALS.has(normalizedSignalType) && body.roomId) {
+          try {
+            const { call, changed } = await this.callService.trackSignal(
+              body.roomId,
+              normalizedSignalType as CallSignal,
+              client.data.user,
+              body.targetId,
+            );
+            if (call) {
+              body = { ...body, callId: (call._id as any).toString() };
+              if (changed) {
+                this.broadcastCall(body.roomId, call.toObject());
+              }
+            }
+          } catch (error: any) {
+            console.error(
+              `Error tracking call for ${body.signalType}:`,
+              error?.message ?? error,
+            );
+          }
+        }
+
         // ✅ FIXED: Send to specific target user, not entire room
         if (body.targetId) {
           const sent = this.sendToUser(body.targetId, 'newMessage', body, {
-            roomId: this.roomScopedSignals.has(normalizedSignalType) ? body.roomId : undefined,
+            roomId: this.roomScopedSignals.has(normalizedSignalType)
+              ? body.roomId
+              : undefined,
             multi: this.multiTargetSignals.has(normalizedSignalType),
           });
           if (sent) {
             console.log(`✅ Sent ${body.signalType} to user ${body.targetId}`);
           } else {
-            console.warn(`⚠️ User ${body.targetId} not connected, broadcasting to room`);
+            console.warn(
+              `⚠️ User ${body.targetId} not connected, broadcasting to room`,
+            );
             // Fallback: broadcast to room if target not found
             client.to(`room:${body.roomId}`).emit('newMessage', body);
           }
         } else {
           // No targetId, broadcast to room (shouldn't happen for WebRTC)
-          console.warn(`⚠️ No targetId for ${body.signalType}, broadcasting to room ${body.roomId}`);
+          console.warn(
+            `⚠️ No targetId for ${body.signalType}, broadcasting to room ${body.roomId}`,
+          );
           client.to(`room:${body.roomId}`).emit('newMessage', body);
         }
 
-        return { ok: true, type: 'webrtc_signal' };
+        return { ok: true, type: 'webrtc_signal', callId: body.callId ?? null };
       }
 
       // Regular text message - save to DB and broadcast to room
       const msg = await this.messageService.sendText(body, client.data.user);
-      this.server.to(`room:${body.roomId}`).emit('newMessage', msg);
+      this.broadcastMessage(body.roomId, msg);
 
       return msg;
     } catch (error: any) {
@@ -190,13 +455,213 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  /**
+   * Mark messages up to messageId as delivered to the current user
+   */
+  @SubscribeMessage('markDelivered')
+  async onMarkDelivered(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { roomId: string; messageId: string },
+  ) {
+    return this.handleReceipt(client, body, 'messageDelivered');
+  }
+
+  /**
+   * Mark messages up to messageId as read by the current user
+   */
+  @SubscribeMessage('markRead')
+  async onMarkRead(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { roomId: string; messageId: string },
+  ) {
+    return this.handleReceipt(client, body, 'messageRead');
+  }
+
+  private async handleReceipt(
+    client: ChatSocket,
+    body: { roomId: string; messageId: string },
+    event: 'messageDelivered' | 'messageRead',
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    const isObjectId = (id: any) =>
+      typeof id === 'string' && /^[a-fA-F0-9]{24}$/.test(id);
+    if (!isObjectId(body?.roomId) || !isObjectId(body?.messageId)) {
+      return {
+        error: 'roomId and messageId must be 24-char hex Mongo ObjectIds',
+      };
+    }
+
+    try {
+      const receipt =
+        event === 'messageRead'
+          ? await this.messageService.markRead(
+              body.roomId,
+              body.messageId,
+              client.data.user,
+            )
+          : await this.messageService.markDelivered(
+              body.roomId,
+              body.messageId,
+              client.data.user,
+            );
+      this.broadcastReceipt(body.roomId, event, receipt);
+      return receipt;
+    } catch (error: any) {
+      console.error(`Error in ${event} receipt:`, error);
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Forward a text or audio message to another room (same as POST /messages/:messageId/forward)
+   */
+  @SubscribeMessage('forwardMessage')
+  async onForwardMessage(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { messageId: string; roomId: string },
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    const isObjectId = (id: any) =>
+      typeof id === 'string' && /^[a-fA-F0-9]{24}$/.test(id);
+    if (!isObjectId(body?.messageId) || !isObjectId(body?.roomId)) {
+      return {
+        error: 'messageId and roomId must be 24-char hex Mongo ObjectIds',
+      };
+    }
+
+    try {
+      const msg = await this.messageService.forwardMessage(
+        body.messageId,
+        body.roomId,
+        client.data.user,
+      );
+      this.broadcastMessage(body.roomId, msg);
+      return msg;
+    } catch (error: any) {
+      console.error('Error in forwardMessage:', error);
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Edit one of your text messages (same as PATCH /messages/:messageId)
+   */
+  @SubscribeMessage('editMessage')
+  async onEditMessage(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { messageId: string; text: string },
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    if (
+      typeof body?.messageId !== 'string' ||
+      !/^[a-fA-F0-9]{24}$/.test(body.messageId)
+    ) {
+      return { error: 'messageId must be a 24-char hex Mongo ObjectId' };
+    }
+
+    try {
+      const msg = await this.messageService.editMessage(
+        body.messageId,
+        body.text,
+        client.data.user,
+      );
+      this.broadcastMessageEvent(msg.room.toString(), 'messageEdited', msg);
+      return msg;
+    } catch (error: any) {
+      console.error('Error in editMessage:', error);
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Delete a message for yourself or for everyone (same as DELETE /messages/:messageId)
+   */
+  @SubscribeMessage('deleteMessage')
+  async onDeleteMessage(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { messageId: string; scope?: 'me' | 'everyone' },
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    if (
+      typeof body?.messageId !== 'string' ||
+      !/^[a-fA-F0-9]{24}$/.test(body.messageId)
+    ) {
+      return { error: 'messageId must be a 24-char hex Mongo ObjectId' };
+    }
+    if (body.scope && body.scope !== 'me' && body.scope !== 'everyone') {
+      return { error: 'scope must be "me" or "everyone"' };
+    }
+
+    try {
+      const result = await this.messageService.deleteMessage(
+        body.messageId,
+        body.scope ?? 'me',
+        client.data.user,
+      );
+      if (result.scope === 'everyone') {
+        this.broadcastMessageEvent(
+          result.room.toString(),
+          'messageDeleted',
+          result,
+        );
+      } else {
+        this.sendToUser(client.data.user.id, 'messageDeleted', result);
+      }
+      return result;
+    } catch (error: any) {
+      console.error('Error in deleteMessage:', error);
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Set or, with emoji null, remove your reaction to a message
+   */
+  @SubscribeMessage('reactMessage')
+  async onReactMessage(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { messageId: string; emoji: string | null },
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    if (
+      typeof body?.messageId !== 'string' ||
+      !/^[a-fA-F0-9]{24}$/.test(body.messageId)
+    ) {
+      return { error: 'messageId must be a 24-char hex Mongo ObjectId' };
+    }
+
+    try {
+      const msg = await this.messageService.setReaction(
+        body.messageId,
+        body.emoji ?? null,
+        client.data.user,
+      );
+      this.broadcastMessageEvent(msg.room.toString(), 'messageReactions', msg);
+      return msg;
+    } catch (error: any) {
+      console.error('Error in reactMessage:', error);
+      return { error: error.message };
+    }
+  }
+
   /**
    * Send call signaling (WebRTC offer/answer/ICE)
    */
   @SubscribeMessage('signal')
   async onSignal(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() body: {
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody()
+    body: {
       roomId: string;
       senderModel: 'User' | 'Child';
       senderId: string;
@@ -223,6 +688,17 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
       // Broadcast to all clients in the room except sender
       client.to(`room:${body.roomId}`).emit('signal', message);
 
+      if (body.type !== 'ICE_CANDIDATE') {
+        const { call, changed } = await this.callService.trackSignal(
+          body.roomId,
+          body.type === 'CALL_OFFER' ? 'offer' : 'answer',
+          client.data.user,
+        );
+        if (call && changed) {
+          this.broadcastCall(body.roomId, call.toObject());
+        }
+      }
+
       return { ok: true, message };
     } catch (error: any) {
       console.error('Error in onSignal:', error);
@@ -230,6 +706,226 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  /**
+   * Child presses the SOS button (same as POST /children/me/sos)
+   */
+  @SubscribeMessage('sos')
+  async onSos(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { lat?: number; lng?: number; message?: string },
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+
+    try {
+      const incident = await this.sosService.trigger(
+        {
+          lat: typeof body?.lat === 'number' ? body.lat : undefined,
+          lng: typeof body?.lng === 'number' ? body.lng : undefined,
+          message: typeof body?.message === 'string' ? body.message : undefined,
+        },
+        client.data.user,
+      );
+      return { ok: true, incident };
+    } catch (error: any) {
+      console.error('Error in onSos:', error);
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Parent starts watching a child's live location
+   */
+  @SubscribeMessage('subscribeChildLocation')
+  async onSubscribeChildLocation(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { childId: string },
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    if (client.data.user.type === 'child') {
+      return { error: 'Only parents can watch a child location' };
+    }
+    if (!body?.childId || !Types.ObjectId.isValid(body.childId)) {
+      return { error: 'childId must be a 24-char hex Mongo ObjectId' };
+    }
+
+    try {
+      // Same access rules as GET /children/:id
+      const child = await this.childService.findOne(
+        body.childId,
+        client.data.user,
+      );
+      void client.join(`child-location:${body.childId}`);
+
+      console.log(
+        `📍 User ${client.data.user.id} watching child ${body.childId}`,
+      );
+      return {
+        ok: true,
+        childId: body.childId,
+        location: child.location ?? null,
+      };
+    } catch (error: any) {
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Parent stops watching a child's live location
+   */
+  @SubscribeMessage('unsubscribeChildLocation')
+  onUnsubscribeChildLocation(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: { childId: string },
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    if (!body?.childId || !Types.ObjectId.isValid(body.childId)) {
+      return { error: 'childId must be a 24-char hex Mongo ObjectId' };
+    }
+
+    void client.leave(`child-location:${body.childId}`);
+    return { ok: true, childId: body.childId };
+  }
+
+  /**
+   * Child sends a location fix over the socket (same as PATCH /children/:id/location)
+   */
+  @SubscribeMessage('publishLocation')
+  async onPublishLocation(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: UpdateChildLocationDto,
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    if (client.data.user.type !== 'child') {
+      return { error: 'Only children can publish their location' };
+    }
+    if (
+      typeof body?.lat !== 'number' ||
+      typeof body?.lng !== 'number' ||
+      Math.abs(body.lat) > 90 ||
+      Math.abs(body.lng) > 180
+    ) {
+      return { error: 'lat and lng must be valid coordinates' };
+    }
+    if (
+      body.provider != null &&
+      !Object.values(LocationProvider).includes(body.provider)
+    ) {
+      return {
+        error: `provider must be one of ${Object.values(LocationProvider).join(', ')}`,
+      };
+    }
+
+    // Optional fix quality fields: keep only well-formed values
+    const optionalNumber = (value: any, min = -Infinity, max = Infinity) =>
+      typeof value === 'number' && value >= min && value <= max
+        ? value
+        : undefined;
+
+    try {
+      const child = await this.childService.updateLocation(
+        client.data.user.id,
+        {
+          lat: body.lat,
+          lng: body.lng,
+          accuracy: optionalNumber(body.accuracy, 0),
+          speed: optionalNumber(body.speed, 0),
+          heading: optionalNumber(body.heading, 0, 360),
+          altitude: optionalNumber(body.altitude),
+          provider: body.provider ?? undefined,
+        },
+        client.data.user,
+      );
+      return { ok: true, location: child.location };
+    } catch (error: any) {
+      console.error('Error in onPublishLocation:', error);
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Child's device reports battery and connectivity (same as POST /children/me/heartbeat)
+   */
+  @SubscribeMessage('heartbeat')
+  async onHeartbeat(
+    @ConnectedSocket() client: ChatSocket,
+    @MessageBody() body: DeviceHeartbeatDto,
+  ) {
+    if (!client.data.user) {
+      return { error: 'Unauthorized' };
+    }
+    if (client.data.user.type !== 'child') {
+      return { error: 'Only children can send device heartbeats' };
+    }
+    const { batteryLevel, isCharging, networkType, appVersion } = body || {};
+    if (
+      batteryLevel != null &&
+      (!Number.isInteger(batteryLevel) ||
+        batteryLevel < 0 ||
+        batteryLevel > 100)
+    ) {
+      return { error: 'batteryLevel must be an integer between 0 and 100' };
+    }
+    if (
+      networkType != null &&
+      !Object.values(NetworkType).includes(networkType)
+    ) {
+      return {
+        error: `networkType must be one of ${Object.values(NetworkType).join(', ')}`,
+      };
+    }
+
+    try {
+      const status = await this.childService.recordHeartbeat(
+        {
+          batteryLevel: batteryLevel ?? undefined,
+          isCharging: typeof isCharging === 'boolean' ? isCharging : undefined,
+          networkType: networkType ?? undefined,
+          appVersion:
+            typeof appVersion === 'string'
+              ? appVersion.slice(0, 32)
+              : undefined,
+        },
+        client.data.user,
+      );
+      return { ok: true, ...status };
+    } catch (error: any) {
+      console.error('Error in onHeartbeat:', error);
+      return { error: error.message };
+    }
+  }
+
+  /**
+   * Push an accepted location update to the parents watching this child
+   * Subscribers are re-checked against the current parents (a parent may have been unlinked)
+   */
+  async publishChildLocation(
+    childId: string,
+    parentIds: string[],
+    location: ChildLocationFix,
+  ): Promise<void> {
+    const roomName = `child-location:${childId}`;
+    const sockets = await this.server.in(roomName).fetchSockets();
+
+    for (const socket of sockets) {
+      const user = socket.data.user;
+      const allowed =
+        user && (user.role === UserRole.ADMIN || parentIds.includes(user.id));
+      if (!allowed) {
+        socket.leave(roomName);
+        continue;
+      }
+      socket.emit('childLocation', { childId, ...location });
+    }
+  }
+
   /**
    * ✅ Helper: Send message to specific user by userId
    * Supports multiple devices (sends to all user's connected sockets)
@@ -283,6 +979,86 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
   broadcastMessage(roomId: string, message: any) {
     this.server.to(`room:${roomId}`).emit('newMessage', message);
     console.log(`📨 Broadcasted message to room:${roomId}`);
+
+    if (NOTIFIED_MESSAGE_TYPES.has(message?.type)) {
+      this.notifyOfflineParents(roomId, message).catch((error) => {
+        console.error('Error sending new message notifications:', error);
+      });
+    }
+  }
+
+  /**
+   * Parents of the room without an open socket get the message as a notification
+   * on their newMessage channels instead
+   */
+  private async notifyOfflineParents(
+    roomId: string,
+    message: any,
+  ): Promise<void> {
+    const senderId = message.senderId.toString();
+    const { childId, participants } =
+      await this.messageService.getRoomMembers(roomId);
+    const offlineParentIds = participants
+      .filter((p) => p.participantModel === 'User')
+      .map((p) => p.participant.toString())
+      .filter((id) => id !== senderId && !this.userSockets.has(id));
+    if (offlineParentIds.length === 0) {
+      return;
+    }
+
+    const child = await this.childService.findOne(childId, {
+      role: UserRole.ADMIN,
+      id: 'system',
+    });
+    const sender = await this.messageService.getParticipantProfile({
+      id: senderId,
+      type: message.senderModel === 'Child' ? 'child' : 'user',
+    });
+
+    for (const parentId of offlineParentIds) {
+      try {
+        await this.notificationService.sendNewMessageAlert(parentId, {
+          child,
+          sender,
+          message,
+          roomId,
+        });
+      } catch (error) {
+        console.error(
+          `Failed to send new message notification to ${parentId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Broadcast a delivery/read receipt to a room (messageDelivered / messageRead)
+   */
+  broadcastReceipt(
+    roomId: string,
+    event: 'messageDelivered' | 'messageRead',
+    receipt: any,
+  ) {
+    this.server.to(`room:${roomId}`).emit(event, receipt);
+  }
+
+  /**
+   * Broadcast an edit, deletion or reaction change of a message to its room
+   */
+  broadcastMessageEvent(
+    roomId: string,
+    event: 'messageEdited' | 'messageDeleted' | 'messageReactions',
+    message: any,
+  ) {
+    this.server.to(`room:${roomId}`).emit(event, message);
+  }
+
+  /**
+   * Broadcast a call's new state to a room (callUpdated)
+   */
+  broadcastCall(roomId: string, call: any) {
+    this.server.to(`room:${roomId}`).emit('callUpdated', call);
   }
 
   /**
@@ -346,6 +1122,8 @@ export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
    * ✅ Check if user is online (for debugging)
    */
   isUserOnline(userId: string): boolean {
-    return this.userSockets.has(userId) && this.userSockets.get(userId)!.size > 0;
+    return (
+      this.userSockets.has(userId) && this.userSockets.get(userId)!.size > 0
+    );
   }
-}
\ No newline at end of file
+}
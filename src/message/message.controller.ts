@@ -6,7 +6,10 @@ import {
   Get,
   InternalServerErrorException,
   Param,
+  Patch,
+  PayloadTooLargeException,
   Post,
+  Put,
   Query,
   UploadedFile,
   UseGuards,
@@ -17,9 +20,70 @@ import { memoryStorage } from 'multer';
 import { MessageService } from './message.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/user.decorator';
-import { ApiBearerAuth, ApiBody, ApiConsumes, ApiOperation, ApiParam, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
 import { CloudinaryService } from './cloudinary.service';
-import { ChatGateway } from './gateway/chat.gateway';  // ← ADDED
+import { CallService } from './call.service';
+import { ChatGateway } from './gateway/chat.gateway'; // ← ADDED
+import { MessageType } from './schemas/message.schema';
+
+type AttachmentType = MessageType.IMAGE | MessageType.VIDEO | MessageType.FILE;
+
+const MB = 1024 * 1024;
+
+// Largest attachment stored inline as base64 (grows by a third) when Cloudinary is not configured
+const BASE64_FALLBACK_MAX_BYTES = 10 * MB;
+
+/**
+ * Size and MIME limits per attachment type
+ */
+const ATTACHMENT_LIMITS: Record<
+  AttachmentType,
+  {
+    maxBytes: number;
+    mimeTypes: string[];
+    resourceType: 'image' | 'video' | 'raw';
+  }
+> = {
+  [MessageType.IMAGE]: {
+    maxBytes: 10 * MB,
+    mimeTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/gif',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+    ],
+    resourceType: 'image',
+  },
+  [MessageType.VIDEO]: {
+    maxBytes: 50 * MB,
+    mimeTypes: ['video/mp4', 'video/quicktime', 'video/webm', 'video/3gpp'],
+    resourceType: 'video',
+  },
+  [MessageType.FILE]: {
+    maxBytes: 20 * MB,
+    mimeTypes: [
+      'application/pdf',
+      'text/plain',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/zip',
+    ],
+    resourceType: 'raw',
+  },
+};
 
 @ApiTags('Messages')
 @ApiBearerAuth('JWT-auth')
@@ -29,12 +93,15 @@ export class MessageController {
   constructor(
     private readonly messageService: MessageService,
     private readonly cloudinaryService: CloudinaryService,
-    private readonly chatGateway: ChatGateway,  // ← ADDED
+    private readonly chatGateway: ChatGateway, // ← ADDED
+    private readonly callService: CallService,
   ) {}
-  
+
   private assertObjectId(id: string, name: string) {
     if (!/^[a-fA-F0-9]{24}$/.test(id)) {
-      throw new BadRequestException(`${name} must be a 24-char hex Mongo ObjectId`);
+      throw new BadRequestException(
+        `${name} must be a 24-char hex Mongo ObjectId`,
+      );
     }
   }
 
@@ -42,10 +109,18 @@ export class MessageController {
    * Parent: List all rooms (one per child)
    */
   @Get('rooms/parent/:parentId')
-  @ApiOperation({ summary: 'List all rooms for a parent (one room per child)' })
+  @ApiOperation({
+    summary: 'List all rooms a parent is a member of (direct and family rooms)',
+  })
   @ApiParam({ name: 'parentId', description: 'Parent User ID' })
-  @ApiResponse({ status: 200, description: 'List of rooms with last message preview' })
-  async listRoomsForParent(@Param('parentId') parentId: string, @CurrentUser() currentUser: any) {
+  @ApiResponse({
+    status: 200,
+    description: 'List of rooms with last message preview',
+  })
+  async listRoomsForParent(
+    @Param('parentId') parentId: string,
+    @CurrentUser() currentUser: any,
+  ) {
     this.assertObjectId(parentId, 'parentId');
     return this.messageService.listRoomsForParent(parentId, currentUser);
   }
@@ -56,12 +131,43 @@ export class MessageController {
   @Get('room/child/:childId')
   @ApiOperation({ summary: 'Get room for a child (their room with parent)' })
   @ApiParam({ name: 'childId', description: 'Child ID' })
-  @ApiResponse({ status: 200, description: 'Room with parent info and last message' })
-  async getRoomForChild(@Param('childId') childId: string, @CurrentUser() currentUser: any) {
+  @ApiResponse({
+    status: 200,
+    description: 'Room with parent info and last message',
+  })
+  async getRoomForChild(
+    @Param('childId') childId: string,
+    @CurrentUser() currentUser: any,
+  ) {
     this.assertObjectId(childId, 'childId');
     return this.messageService.getRoomForChild(childId, currentUser);
   }
 
+  /**
+   * Family room of a child (the child and all of their parents)
+   */
+  @Get('room/family/:childId')
+  @ApiOperation({
+    summary:
+      'Get or create the family room of a child (child, main parent and linked parents)',
+  })
+  @ApiParam({ name: 'childId', description: 'Child ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Family room with members and last message',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not the child or one of their parents',
+  })
+  async getFamilyRoom(
+    @Param('childId') childId: string,
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(childId, 'childId');
+    return this.messageService.getOrCreateFamilyRoom(childId, currentUser);
+  }
+
   /**
    * Get room by ID
    */
@@ -69,19 +175,51 @@ export class MessageController {
   @ApiOperation({ summary: 'Get room by ID' })
   @ApiParam({ name: 'roomId', description: 'Room ID' })
   @ApiResponse({ status: 200, description: 'Room details' })
-  async getRoom(@Param('roomId') roomId: string, @CurrentUser() currentUser: any) {
+  async getRoom(
+    @Param('roomId') roomId: string,
+    @CurrentUser() currentUser: any,
+  ) {
     this.assertObjectId(roomId, 'roomId');
     return this.messageService.getRoomById(roomId, currentUser);
   }
 
+  /**
+   * Who is online in a room right now
+   */
+  @Get('room/:roomId/presence')
+  @ApiOperation({
+    summary: 'List the users and children currently connected to a room',
+  })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Online participants with display info',
+  })
+  async getRoomPresence(
+    @Param('roomId') roomId: string,
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(roomId, 'roomId');
+    await this.messageService.assertCanAccessRoom(roomId, currentUser);
+    return { roomId, online: await this.chatGateway.getRoomPresence(roomId) };
+  }
+
   /**
    * List messages in a room
    */
   @Get('room/:roomId/messages')
   @ApiOperation({ summary: 'List messages in a room (newest first)' })
   @ApiParam({ name: 'roomId', description: 'Room ID' })
-  @ApiQuery({ name: 'limit', required: false, description: 'Max messages (default 50, max 100)' })
-  @ApiQuery({ name: 'beforeId', required: false, description: 'Pagination: fetch messages before this message _id' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Max messages (default 50, max 100)',
+  })
+  @ApiQuery({
+    name: 'beforeId',
+    required: false,
+    description: 'Pagination: fetch messages before this message _id',
+  })
   @ApiResponse({ status: 200, description: 'List of messages' })
   async listMessages(
     @Param('roomId') roomId: string,
@@ -91,11 +229,62 @@ export class MessageController {
   ) {
     this.assertObjectId(roomId, 'roomId');
     const parsed = limit ? Number(limit) : 50;
-    const parsedLimit = Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 100) : 50;
+    const parsedLimit =
+      Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 100) : 50;
+    if (beforeId && !/^[a-fA-F0-9]{24}$/.test(beforeId)) {
+      throw new BadRequestException(
+        'beforeId must be a 24-char hex Mongo ObjectId',
+      );
+    }
+    return this.messageService.listMessages(
+      roomId,
+      currentUser,
+      parsedLimit,
+      beforeId,
+    );
+  }
+
+  /**
+   * Call history of a room
+   */
+  @Get('room/:roomId/calls')
+  @ApiOperation({ summary: 'List calls in a room (newest first)' })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Max calls (default 50, max 100)',
+  })
+  @ApiQuery({
+    name: 'beforeId',
+    required: false,
+    description: 'Pagination: fetch calls before this call _id',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Calls with status, participants, start/end and duration',
+  })
+  async listCalls(
+    @Param('roomId') roomId: string,
+    @CurrentUser() currentUser: any,
+    @Query('limit') limit?: string,
+    @Query('beforeId') beforeId?: string,
+  ) {
+    this.assertObjectId(roomId, 'roomId');
+    const parsed = limit ? Number(limit) : 50;
+    const parsedLimit =
+      Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 100) : 50;
     if (beforeId && !/^[a-fA-F0-9]{24}$/.test(beforeId)) {
-      throw new BadRequestException('beforeId must be a 24-char hex Mongo ObjectId');
+      throw new BadRequestException(
+        'beforeId must be a 24-char hex Mongo ObjectId',
+      );
     }
-    return this.messageService.listMessages(roomId, currentUser, parsedLimit, beforeId);
+    return this.callService.listForRoom(
+      roomId,
+      currentUser,
+      parsedLimit,
+      beforeId,
+    );
   }
 
   /**
@@ -120,7 +309,9 @@ export class MessageController {
     if (sender && !['parent', 'child', 'me', 'all'].includes(sender)) {
       throw new BadRequestException('sender must be parent, child, me, or all');
     }
-    return this.messageService.listAudioMessages(roomId, currentUser, { sender });
+    return this.messageService.listAudioMessages(roomId, currentUser, {
+      sender,
+    });
   }
 
   /**
@@ -134,8 +325,17 @@ export class MessageController {
       type: 'object',
       properties: {
         text: { type: 'string', example: 'Hello 👋' },
-        senderModel: { type: 'string', enum: ['User', 'Child'], example: 'User' },
+        senderModel: {
+          type: 'string',
+          enum: ['User', 'Child'],
+          example: 'User',
+        },
         senderId: { type: 'string', example: '665f1c9f6e9a5f0984b2d111' },
+        replyToId: {
+          type: 'string',
+          example: '665f1c9f6e9a5f0984b2d999',
+          description: 'Message being replied to (same room)',
+        },
       },
       required: ['text', 'senderModel', 'senderId'],
     },
@@ -143,7 +343,13 @@ export class MessageController {
   @ApiResponse({ status: 201, description: 'Message sent successfully' })
   async sendText(
     @Param('roomId') roomId: string,
-    @Body() body: { text: string; senderModel: 'User' | 'Child'; senderId: string },
+    @Body()
+    body: {
+      text: string;
+      senderModel: 'User' | 'Child';
+      senderId: string;
+      replyToId?: string;
+    },
     @CurrentUser() currentUser: any,
   ) {
     this.assertObjectId(roomId, 'roomId');
@@ -154,13 +360,17 @@ export class MessageController {
       throw new BadRequestException('senderModel must be "User" or "Child"');
     }
     this.assertObjectId(body.senderId, 'senderId');
-    
+    if (body.replyToId) {
+      this.assertObjectId(body.replyToId, 'replyToId');
+    }
+
     const msg = await this.messageService.sendText(
       {
         roomId,
         text: body.text,
         senderModel: body.senderModel,
         senderId: body.senderId,
+        replyToId: body.replyToId,
       },
       currentUser,
     );
@@ -175,7 +385,9 @@ export class MessageController {
    * Send an audio message
    */
   @Post('room/:roomId/audio')
-  @ApiOperation({ summary: 'Send an audio message in a room (multipart/form-data)' })
+  @ApiOperation({
+    summary: 'Send an audio message in a room (multipart/form-data)',
+  })
   @ApiParam({ name: 'roomId', description: 'Room ID' })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
@@ -183,22 +395,39 @@ export class MessageController {
       type: 'object',
       properties: {
         file: { type: 'string', format: 'binary' },
-        senderModel: { type: 'string', enum: ['User', 'Child'], example: 'Child' },
+        senderModel: {
+          type: 'string',
+          enum: ['User', 'Child'],
+          example: 'Child',
+        },
         senderId: { type: 'string', example: '665f1c9f6e9a5f0984b2d222' },
         durationSec: { type: 'number', example: 3.2 },
+        replyToId: {
+          type: 'string',
+          example: '665f1c9f6e9a5f0984b2d999',
+          description: 'Message being replied to (same room)',
+        },
       },
       required: ['file', 'senderModel', 'senderId'],
     },
   })
   @ApiResponse({ status: 201, description: 'Audio message sent successfully' })
-  @UseInterceptors(FileInterceptor('file', {
-    storage: memoryStorage(),
-    limits: { fileSize: 20 * 1024 * 1024 },
-  }))
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: memoryStorage(),
+      limits: { fileSize: 20 * 1024 * 1024 },
+    }),
+  )
   async sendAudio(
     @Param('roomId') roomId: string,
     @UploadedFile() file: Express.Multer.File,
-    @Body() body: { senderModel: 'User' | 'Child'; senderId: string; durationSec?: number },
+    @Body()
+    body: {
+      senderModel: 'User' | 'Child';
+      senderId: string;
+      durationSec?: number;
+      replyToId?: string;
+    },
     @CurrentUser() currentUser: any,
   ) {
     this.assertObjectId(roomId, 'roomId');
@@ -209,6 +438,9 @@ export class MessageController {
       throw new BadRequestException('senderModel must be "User" or "Child"');
     }
     this.assertObjectId(body.senderId, 'senderId');
+    if (body.replyToId) {
+      this.assertObjectId(body.replyToId, 'replyToId');
+    }
 
     let uploadUrl: string;
     let cloudinaryPublicId: string | null = null;
@@ -243,9 +475,13 @@ export class MessageController {
         roomId,
         senderModel: body.senderModel,
         senderId: body.senderId,
+        replyToId: body.replyToId,
         audio: {
           url: uploadUrl,
-          durationSec: durationValue && Number.isFinite(durationValue) ? durationValue : null,
+          durationSec:
+            durationValue && Number.isFinite(durationValue)
+              ? durationValue
+              : null,
           mimeType: file.mimetype,
           sizeBytes: file.size,
           cloudinaryPublicId,
@@ -260,42 +496,268 @@ export class MessageController {
     return msg;
   }
 
+  /**
+   * Send an image, video or file message
+   */
+  @Post('room/:roomId/attachment')
+  @ApiOperation({
+    summary: 'Send an image, video or file in a room (multipart/form-data)',
+  })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        type: {
+          type: 'string',
+          enum: [MessageType.IMAGE, MessageType.VIDEO, MessageType.FILE],
+          description: 'Inferred from the file MIME type when omitted',
+        },
+        senderModel: {
+          type: 'string',
+          enum: ['User', 'Child'],
+          example: 'Child',
+        },
+        senderId: { type: 'string', example: '665f1c9f6e9a5f0984b2d222' },
+        caption: { type: 'string', example: 'At the park!' },
+        durationSec: {
+          type: 'number',
+          example: 12.5,
+          description: 'Video duration (used when Cloudinary is disabled)',
+        },
+        replyToId: {
+          type: 'string',
+          example: '665f1c9f6e9a5f0984b2d999',
+          description: 'Message being replied to (same room)',
+        },
+      },
+      required: ['file', 'senderModel', 'senderId'],
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Attachment message sent successfully',
+  })
+  @ApiResponse({ status: 400, description: 'Unsupported file type' })
+  @ApiResponse({ status: 403, description: 'Not a member of the room' })
+  @ApiResponse({
+    status: 413,
+    description:
+      'File exceeds the size limit of its type (10 MB for any type without Cloudinary)',
+  })
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: memoryStorage(),
+      limits: { fileSize: 50 * MB }, // largest per-type limit, checked precisely below
+    }),
+  )
+  async sendAttachment(
+    @Param('roomId') roomId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body()
+    body: {
+      type?: AttachmentType;
+      senderModel: 'User' | 'Child';
+      senderId: string;
+      caption?: string;
+      durationSec?: number;
+      replyToId?: string;
+    },
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(roomId, 'roomId');
+    if (!file) {
+      throw new BadRequestException('file is required');
+    }
+    if (body.senderModel !== 'User' && body.senderModel !== 'Child') {
+      throw new BadRequestException('senderModel must be "User" or "Child"');
+    }
+    this.assertObjectId(body.senderId, 'senderId');
+    if (body.replyToId) {
+      this.assertObjectId(body.replyToId, 'replyToId');
+    }
+
+    const type: AttachmentType =
+      body.type ??
+      (file.mimetype.startsWith('image/')
+        ? MessageType.IMAGE
+        : file.mimetype.startsWith('video/')
+          ? MessageType.VIDEO
+          : MessageType.FILE);
+    const limits = ATTACHMENT_LIMITS[type];
+    if (!limits) {
+      throw new BadRequestException('type must be "IMAGE", "VIDEO" or "FILE"');
+    }
+    if (!limits.mimeTypes.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `Unsupported ${type} type "${file.mimetype}". Allowed: ${limits.mimeTypes.join(', ')}`,
+      );
+    }
+    if (file.size > limits.maxBytes) {
+      throw new PayloadTooLargeException(
+        `${type} attachments are limited to ${limits.maxBytes / MB} MB`,
+      );
+    }
+
+    // Before uploading, so non-members cannot store files under this room's folder
+    await this.messageService.assertCanAccessRoom(roomId, currentUser);
+
+    const caption =
+      typeof body.caption === 'string'
+        ? body.caption.trim().slice(0, 1000)
+        : '';
+    const durationValue =
+      typeof body.durationSec === 'string'
+        ? Number(body.durationSec)
+        : typeof body.durationSec === 'number'
+          ? body.durationSec
+          : null;
+
+    let upload: {
+      url: string;
+      thumbnailUrl: string | null;
+      width: number | null;
+      height: number | null;
+      durationSec: number | null;
+      cloudinaryPublicId: string | null;
+    };
+
+    if (this.cloudinaryService.enabled()) {
+      try {
+        const uploadResult = await this.cloudinaryService.uploadMedia(
+          file,
+          limits.resourceType,
+          {
+            folder: `weldiwin/messages/rooms/${roomId}`,
+          },
+        );
+        upload = {
+          url: uploadResult.url,
+          thumbnailUrl: uploadResult.thumbnailUrl,
+          width: uploadResult.width,
+          height: uploadResult.height,
+          durationSec: uploadResult.durationSec,
+          cloudinaryPublicId: uploadResult.publicId,
+        };
+      } catch (error: any) {
+        throw new InternalServerErrorException(
+          `Failed to upload ${type} to Cloudinary: ${error?.message ?? 'Unknown error'}`,
+        );
+      }
+    } else {
+      // Fall back to base64 data URL (primarily for local/serverless development)
+      // Stored inline in the message, so it must stay well under MongoDB's 16 MB document limit
+      if (file.size > BASE64_FALLBACK_MAX_BYTES) {
+        throw new PayloadTooLargeException(
+          `Attachments are limited to ${BASE64_FALLBACK_MAX_BYTES / MB} MB while media storage is not configured`,
+        );
+      }
+      const base64Data = file.buffer.toString('base64');
+      upload = {
+        url: `data:${file.mimetype};base64,${base64Data}`,
+        thumbnailUrl: null,
+        width: null,
+        height: null,
+        durationSec: null,
+        cloudinaryPublicId: null,
+      };
+    }
+
+    const msg = await this.messageService.sendAttachment(
+      {
+        roomId,
+        senderModel: body.senderModel,
+        senderId: body.senderId,
+        type,
+        caption: caption || null,
+        replyToId: body.replyToId,
+        attachment: {
+          ...upload,
+          durationSec:
+            upload.durationSec ??
+            (type === MessageType.VIDEO &&
+            durationValue &&
+            Number.isFinite(durationValue)
+              ? durationValue
+              : null),
+          mimeType: file.mimetype,
+          sizeBytes: file.size,
+          fileName: file.originalname || null,
+        },
+      },
+      currentUser,
+    );
+
+    // ✅ BROADCAST VIA SOCKET.IO FOR REAL-TIME UPDATES
+    this.chatGateway.broadcastMessage(roomId, msg);
+
+    return msg;
+  }
+
   /**
    * Send call signaling (WebRTC)
    */
   @Post('room/:roomId/signal')
-  @ApiOperation({ summary: 'Send call signaling message (WebRTC offer/answer/ICE)' })
+  @ApiOperation({
+    summary: 'Send call signaling message (WebRTC offer/answer/ICE)',
+  })
   @ApiParam({ name: 'roomId', description: 'Room ID' })
   @ApiBody({
     schema: {
       type: 'object',
       properties: {
-        type: { type: 'string', enum: ['CALL_OFFER', 'CALL_ANSWER', 'ICE_CANDIDATE'], example: 'CALL_OFFER' },
-        senderModel: { type: 'string', enum: ['User', 'Child'], example: 'User' },
+        type: {
+          type: 'string',
+          enum: ['CALL_OFFER', 'CALL_ANSWER', 'ICE_CANDIDATE'],
+          example: 'CALL_OFFER',
+        },
+        senderModel: {
+          type: 'string',
+          enum: ['User', 'Child'],
+          example: 'User',
+        },
         senderId: { type: 'string', example: '665f1c9f6e9a5f0984b2d111' },
         payload: { type: 'object', example: { sdp: '...', type: 'offer' } },
       },
       required: ['type', 'senderModel', 'senderId', 'payload'],
     },
   })
-  @ApiResponse({ status: 201, description: 'Signal sent successfully' })
+  @ApiResponse({
+    status: 201,
+    description: 'Signal sent successfully (ICE candidates are not stored)',
+  })
   async sendSignal(
     @Param('roomId') roomId: string,
-    @Body() body: { type: 'CALL_OFFER' | 'CALL_ANSWER' | 'ICE_CANDIDATE'; senderModel: 'User' | 'Child'; senderId: string; payload: Record<string, any> },
+    @Body()
+    body: {
+      type: 'CALL_OFFER' | 'CALL_ANSWER' | 'ICE_CANDIDATE';
+      senderModel: 'User' | 'Child';
+      senderId: string;
+      payload: Record<string, any>;
+    },
     @CurrentUser() currentUser: any,
   ) {
     this.assertObjectId(roomId, 'roomId');
-    if (!body.type || !['CALL_OFFER', 'CALL_ANSWER', 'ICE_CANDIDATE'].includes(body.type)) {
-      throw new BadRequestException('type must be CALL_OFFER, CALL_ANSWER, or ICE_CANDIDATE');
+    if (
+      !body.type ||
+      !['CALL_OFFER', 'CALL_ANSWER', 'ICE_CANDIDATE'].includes(body.type)
+    ) {
+      throw new BadRequestException(
+        'type must be CALL_OFFER, CALL_ANSWER, or ICE_CANDIDATE',
+      );
     }
     if (body.senderModel !== 'User' && body.senderModel !== 'Child') {
       throw new BadRequestException('senderModel must be "User" or "Child"');
     }
     this.assertObjectId(body.senderId, 'senderId');
     if (!body.payload || typeof body.payload !== 'object') {
-      throw new BadRequestException('payload is required and must be an object');
+      throw new BadRequestException(
+        'payload is required and must be an object',
+      );
     }
-    return this.messageService.sendSignal(
+    const message = await this.messageService.sendSignal(
       {
         roomId,
         type: body.type,
@@ -305,13 +767,316 @@ export class MessageController {
       },
       currentUser,
     );
+
+    if (body.type !== 'ICE_CANDIDATE') {
+      const { call, changed } = await this.callService.trackSignal(
+        roomId,
+        body.type === 'CALL_OFFER' ? 'offer' : 'answer',
+        currentUser,
+      );
+      if (call && changed) {
+        this.chatGateway.broadcastCall(roomId, call.toObject());
+      }
+    }
+
+    return message;
+  }
+
+  /**
+   * Mark messages as delivered to the current user
+   */
+  @Post('room/:roomId/delivered')
+  @ApiOperation({
+    summary: 'Mark messages up to a message as delivered to the current user',
+  })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        messageId: {
+          type: 'string',
+          example: '665f1c9f6e9a5f0984b2d999',
+          description: 'Latest message received',
+        },
+      },
+      required: ['messageId'],
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Delivery receipt recorded and broadcast as messageDelivered',
+  })
+  async markDelivered(
+    @Param('roomId') roomId: string,
+    @Body() body: { messageId: string },
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(roomId, 'roomId');
+    this.assertObjectId(body?.messageId, 'messageId');
+    const receipt = await this.messageService.markDelivered(
+      roomId,
+      body.messageId,
+      currentUser,
+    );
+    this.chatGateway.broadcastReceipt(roomId, 'messageDelivered', receipt);
+    return receipt;
+  }
+
+  /**
+   * Mark messages as read by the current user
+   */
+  @Post('room/:roomId/read')
+  @ApiOperation({
+    summary: 'Mark messages up to a message as read by the current user',
+  })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        messageId: {
+          type: 'string',
+          example: '665f1c9f6e9a5f0984b2d999',
+          description: 'Latest message read',
+        },
+      },
+      required: ['messageId'],
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Read receipt recorded and broadcast as messageRead',
+  })
+  async markRead(
+    @Param('roomId') roomId: string,
+    @Body() body: { messageId: string },
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(roomId, 'roomId');
+    this.assertObjectId(body?.messageId, 'messageId');
+    const receipt = await this.messageService.markRead(
+      roomId,
+      body.messageId,
+      currentUser,
+    );
+    this.chatGateway.broadcastReceipt(roomId, 'messageRead', receipt);
+    return receipt;
+  }
+
+  /**
+   * Forward a text or audio message to another room
+   */
+  @Post(':messageId/forward')
+  @ApiOperation({
+    summary: 'Forward a text or audio message to another room you belong to',
+  })
+  @ApiParam({ name: 'messageId', description: 'Message ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        roomId: {
+          type: 'string',
+          example: '665f1c9f6e9a5f0984b2d333',
+          description: 'Target room',
+        },
+      },
+      required: ['roomId'],
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Forwarded copy created in the target room',
+  })
+  async forwardMessage(
+    @Param('messageId') messageId: string,
+    @Body() body: { roomId: string },
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(messageId, 'messageId');
+    this.assertObjectId(body?.roomId, 'roomId');
+    const msg = await this.messageService.forwardMessage(
+      messageId,
+      body.roomId,
+      currentUser,
+    );
+
+    // ✅ BROADCAST VIA SOCKET.IO FOR REAL-TIME UPDATES
+    this.chatGateway.broadcastMessage(body.roomId, msg);
+
+    return msg;
+  }
+
+  /**
+   * Edit one of your text messages
+   */
+  @Patch(':messageId')
+  @ApiOperation({
+    summary: 'Edit the text of your own text message (within the edit window)',
+  })
+  @ApiParam({ name: 'messageId', description: 'Message ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { text: { type: 'string', example: 'See you at 5, not 4!' } },
+      required: ['text'],
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Message edited and broadcast as messageEdited',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Not your message or edit window passed',
+  })
+  async editMessage(
+    @Param('messageId') messageId: string,
+    @Body() body: { text: string },
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(messageId, 'messageId');
+    const msg = await this.messageService.editMessage(
+      messageId,
+      body?.text,
+      currentUser,
+    );
+    this.chatGateway.broadcastMessageEvent(
+      msg.room.toString(),
+      'messageEdited',
+      msg,
+    );
+    return msg;
+  }
+
+  /**
+   * Delete a message for yourself or for everyone
+   */
+  @Delete(':messageId')
+  @ApiOperation({
+    summary:
+      'Delete a message for yourself, or for everyone (your own messages only)',
+  })
+  @ApiParam({ name: 'messageId', description: 'Message ID' })
+  @ApiQuery({
+    name: 'scope',
+    required: false,
+    enum: ['me', 'everyone'],
+    description: 'Default: me',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Message deleted (for everyone: broadcast as messageDeleted)',
+  })
+  async deleteMessage(
+    @Param('messageId') messageId: string,
+    @CurrentUser() currentUser: any,
+    @Query('scope') scope?: 'me' | 'everyone',
+  ) {
+    this.assertObjectId(messageId, 'messageId');
+    if (scope && scope !== 'me' && scope !== 'everyone') {
+      throw new BadRequestException('scope must be "me" or "everyone"');
+    }
+    const result = await this.messageService.deleteMessage(
+      messageId,
+      scope ?? 'me',
+      currentUser,
+    );
+    if (result.scope === 'everyone') {
+      this.chatGateway.broadcastMessageEvent(
+        result.room.toString(),
+        'messageDeleted',
+        result,
+      );
+    } else {
+      // Other devices of the same account hide it too
+      this.chatGateway.sendMessageToUser(
+        currentUser.id,
+        'messageDeleted',
+        result,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * React to a message
+   */
+  @Put(':messageId/reactions')
+  @ApiOperation({
+    summary:
+      'Set your emoji reaction to a message (replaces your previous one)',
+  })
+  @ApiParam({ name: 'messageId', description: 'Message ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { emoji: { type: 'string', example: '❤️' } },
+      required: ['emoji'],
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reaction saved and broadcast as messageReactions',
+  })
+  async setReaction(
+    @Param('messageId') messageId: string,
+    @Body() body: { emoji: string },
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(messageId, 'messageId');
+    if (!body?.emoji) {
+      throw new BadRequestException('emoji is required');
+    }
+    const msg = await this.messageService.setReaction(
+      messageId,
+      body.emoji,
+      currentUser,
+    );
+    this.chatGateway.broadcastMessageEvent(
+      msg.room.toString(),
+      'messageReactions',
+      msg,
+    );
+    return msg;
+  }
+
+  /**
+   * Remove your reaction from a message
+   */
+  @Delete(':messageId/reactions')
+  @ApiOperation({ summary: 'Remove your emoji reaction from a message' })
+  @ApiParam({ name: 'messageId', description: 'Message ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reaction removed and broadcast as messageReactions',
+  })
+  async removeReaction(
+    @Param('messageId') messageId: string,
+    @CurrentUser() currentUser: any,
+  ) {
+    this.assertObjectId(messageId, 'messageId');
+    const msg = await this.messageService.setReaction(
+      messageId,
+      null,
+      currentUser,
+    );
+    this.chatGateway.broadcastMessageEvent(
+      msg.room.toString(),
+      'messageReactions',
+      msg,
+    );
+    return msg;
   }
 
   /**
    * Invite a parent to join a room
    */
   @Post('room/:roomId/invite/:parentId')
-  @ApiOperation({ summary: 'Invite a parent to join a room (only main parent can invite)' })
+  @ApiOperation({
+    summary: 'Invite a parent to join a room (only main parent can invite)',
+  })
   @ApiParam({ name: 'roomId', description: 'Room ID' })
   @ApiParam({ name: 'parentId', description: 'Parent User ID to invite' })
   @ApiResponse({ status: 200, description: 'Parent invited successfully' })
@@ -330,7 +1095,10 @@ export class MessageController {
    * Remove an invited parent from a room
    */
   @Delete('room/:roomId/invite/:parentId')
-  @ApiOperation({ summary: 'Remove an invited parent from a room (only main parent can remove)' })
+  @ApiOperation({
+    summary:
+      'Remove an invited parent from a room (only main parent can remove)',
+  })
   @ApiParam({ name: 'roomId', description: 'Room ID' })
   @ApiParam({ name: 'parentId', description: 'Parent User ID to remove' })
   @ApiResponse({ status: 200, description: 'Parent removed successfully' })
@@ -342,6 +1110,10 @@ export class MessageController {
   ) {
     this.assertObjectId(roomId, 'roomId');
     this.assertObjectId(parentId, 'parentId');
-    return this.messageService.removeInvitedParent(roomId, parentId, currentUser);
+    return this.messageService.removeInvitedParent(
+      roomId,
+      parentId,
+      currentUser,
+    );
   }
-}
\ No newline at end of file
+}
@@ -1,21 +1,29 @@
-import { Module } from '@nestjs/common';
-import { MongooseModule } from '@nestjs/mongoose';
+import { Module, OnModuleInit, forwardRef } from '@nestjs/common';
+import { MongooseModule, InjectConnection } from '@nestjs/mongoose';
+import { Connection } from 'mongoose';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MessageController } from './message.controller';
 import { MessageService } from './message.service';
 import { Message, MessageSchema } from './schemas/message.schema';
-import { Room, RoomSchema } from './schemas/room.schema';
+import { Room, RoomSchema, RoomType } from './schemas/room.schema';
+import { Call, CallSchema } from './schemas/call.schema';
 import { Child, ChildSchema } from '../child/schemas/child.schema';
 import { User, UserSchema } from '../user/schemas/user.schema';
 import { ChatGateway } from './gateway/chat.gateway';
 import { CloudinaryService } from './cloudinary.service';
+import { CallService } from './call.service';
+import { SosModule } from '../sos/sos.module';
+import { AuthModule } from '../auth/auth.module';
+import { ChildModule } from '../child/child.module';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Room.name, schema: RoomSchema },
       { name: Message.name, schema: MessageSchema },
+      { name: Call.name, schema: CallSchema },
       { name: Child.name, schema: ChildSchema },
       { name: User.name, schema: UserSchema },
     ]),
@@ -23,17 +31,74 @@ import { CloudinaryService } from './cloudinary.service';
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: (configService: ConfigService) => {
-        const secret = configService.get<string>('JWT_SECRET') || 'your-secret-key-change-in-production';
+        const secret =
+          configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production';
         return {
           secret,
           signOptions: { expiresIn: '7d' },
         };
       },
     }),
+    forwardRef(() => SosModule),
+    AuthModule,
+    forwardRef(() => ChildModule),
+    forwardRef(() => NotificationModule),
   ],
   controllers: [MessageController],
-  providers: [MessageService, ChatGateway, CloudinaryService],
-  exports: [MessageService],
+  providers: [MessageService, ChatGateway, CloudinaryService, CallService],
+  exports: [MessageService, ChatGateway, CallService],
 })
-export class MessageModule {}
+export class MessageModule implements OnModuleInit {
+  constructor(@InjectConnection() private connection: Connection) {}
 
+  async onModuleInit() {
+    const collection = this.connection.collection('rooms');
+
+    try {
+      // One room per parent-child pair no longer holds for family rooms
+      await collection.dropIndex('parent_1_child_1');
+      console.log(
+        '✅ Dropped obsolete parent_1_child_1 index from rooms collection',
+      );
+    } catch (error: any) {
+      // Ignore if index doesn't exist (code 27 = IndexNotFound)
+      if (error.code !== 27 && error.codeName !== 'IndexNotFound') {
+        console.error('Error dropping room index:', error.message);
+      }
+    }
+
+    try {
+      // Rooms created before room types are direct rooms: child, parent and invited parents
+      const result = await collection.updateMany({ type: { $exists: false } }, [
+        {
+          $set: {
+            type: RoomType.DIRECT,
+            participants: {
+              $concatArrays: [
+                [
+                  { participantModel: 'Child', participant: '$child' },
+                  { participantModel: 'User', participant: '$parent' },
+                ],
+                {
+                  $map: {
+                    input: { $ifNull: ['$invitedParents', []] },
+                    as: 'invited',
+                    in: { participantModel: 'User', participant: '$$invited' },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      ]);
+      if (result.modifiedCount > 0) {
+        console.log(
+          `✅ Backfilled type and participants of ${result.modifiedCount} rooms`,
+        );
+      }
+    } catch (error: any) {
+      console.error('Error backfilling room participants:', error.message);
+    }
+  }
+}
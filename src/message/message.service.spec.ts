@@ -0,0 +1,313 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { MessageService } from './message.service';
+import { Room } from './schemas/room.schema';
+import { Message, MessageType } from './schemas/message.schema';
+import { Child } from '../child/schemas/child.schema';
+import { User } from '../user/schemas/user.schema';
+
+describe('MessageService', () => {
+  let service: MessageService;
+  let roomModel: any;
+  let messageModel: any;
+
+  const roomId = new Types.ObjectId();
+  const childId = new Types.ObjectId();
+  const parentId = new Types.ObjectId();
+  const parent = { id: parentId.toString(), type: 'user' };
+  const child = { id: childId.toString(), type: 'child' };
+  const room = {
+    _id: roomId,
+    child: childId,
+    parent: parentId,
+    participants: [
+      { participantModel: 'Child', participant: childId },
+      { participantModel: 'User', participant: parentId },
+    ],
+  };
+
+  beforeEach(async () => {
+    roomModel = {
+      find: jest.fn(),
+      findById: jest.fn().mockResolvedValue(room),
+    };
+    messageModel = {
+      aggregate: jest.fn(),
+      findById: jest.fn(),
+      findOne: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+      updateMany: jest.fn().mockResolvedValue({ modifiedCount: 0 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageService,
+        {
+          provide: getModelToken(Room.name),
+          useValue: roomModel,
+        },
+        {
+          provide: getModelToken(Message.name),
+          useValue: messageModel,
+        },
+        {
+          provide: getModelToken(Child.name),
+          useValue: {},
+        },
+        {
+          provide: getModelToken(User.name),
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = module.get<MessageService>(MessageService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('unread counts', () => {
+    beforeEach(() => {
+      const query: any = {
+        populate: jest.fn(() => query),
+        sort: jest.fn(() => query),
+        lean: jest.fn().mockResolvedValue([room]),
+      };
+      roomModel.find.mockReturnValue(query);
+      messageModel.aggregate.mockResolvedValue([{ _id: roomId, count: 3 }]);
+    });
+
+    it('adds the unread count of each room', async () => {
+      const rooms = await service.listRoomsForParent(parent.id, parent);
+
+      expect(rooms[0].unreadCount).toBe(3);
+    });
+
+    it('only counts visible chat messages from others the reader has not read', async () => {
+      await service.listRoomsForParent(parent.id, parent);
+
+      const { $match } = messageModel.aggregate.mock.calls[0][0][0];
+      expect($match.senderId).toEqual({ $ne: parentId });
+      expect($match.hiddenFor).toEqual({ $ne: parentId });
+      expect($match.deletedAt).toBeNull();
+      expect($match.type.$in).toContain(MessageType.TEXT);
+      expect($match.type.$in).not.toContain(MessageType.CALL_OFFER);
+      expect($match.type.$in).not.toContain(MessageType.CALL_ANSWER);
+    });
+  });
+
+  describe('receipts', () => {
+    const upToId = new Types.ObjectId();
+
+    beforeEach(() => {
+      messageModel.findOne.mockReturnValue({
+        select: jest.fn().mockResolvedValue({ _id: upToId }),
+      });
+    });
+
+    it('stamps existing receipts and adds missing ones up to the message', async () => {
+      messageModel.updateMany
+        .mockResolvedValueOnce({ modifiedCount: 2 })
+        .mockResolvedValueOnce({ modifiedCount: 1 });
+
+      const result = await service.markRead(
+        roomId.toString(),
+        upToId.toString(),
+        child,
+      );
+
+      expect(result.updated).toBe(3);
+      expect(result.readAt).toBeInstanceOf(Date);
+      const [stampFilter, stampUpdate] = messageModel.updateMany.mock.calls[0];
+      expect(stampFilter._id).toEqual({ $lte: upToId });
+      expect(stampFilter.senderId).toEqual({ $ne: childId });
+      expect(stampUpdate.$set).toMatchObject({
+        isDelivered: true,
+        isRead: true,
+      });
+      const [, addUpdate] = messageModel.updateMany.mock.calls[1];
+      expect(addUpdate.$push.receipts).toMatchObject({
+        readerModel: 'Child',
+        reader: childId,
+        readAt: result.readAt,
+      });
+    });
+
+    it('only marks delivery when messages are delivered', async () => {
+      await service.markDelivered(roomId.toString(), upToId.toString(), child);
+
+      const [, addUpdate] = messageModel.updateMany.mock.calls[1];
+      expect(addUpdate.$set).toEqual({ isDelivered: true });
+      expect(addUpdate.$push.receipts.readAt).toBeNull();
+    });
+
+    it('rejects readers who are not members of the room', async () => {
+      const stranger = { id: new Types.ObjectId().toString(), type: 'user' };
+
+      await expect(
+        service.markRead(roomId.toString(), upToId.toString(), stranger),
+      ).rejects.toThrow('You can only access rooms you are a member of');
+      expect(messageModel.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('lists check-ins the parent can still see in the room', async () => {
+    const query: any = {
+      sort: jest.fn(() => query),
+      skip: jest.fn(() => query),
+      limit: jest.fn(() => query),
+      lean: jest.fn().mockResolvedValue([]),
+    };
+    messageModel.find = jest.fn().mockReturnValue(query);
+    messageModel.countDocuments = jest.fn().mockResolvedValue(0);
+
+    const result = await service.listCheckIns(child.id, parent.id, 1, 20);
+
+    expect(result).toEqual({
+      items: [],
+      page: 1,
+      limit: 20,
+      total: 0,
+      hasMore: false,
+    });
+    expect(messageModel.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: MessageType.CHECK_IN,
+        deletedAt: null,
+        hiddenFor: { $ne: parentId },
+      }),
+    );
+  });
+
+  describe('message actions', () => {
+    const buildMessage = (overrides: any = {}): any => ({
+      _id: new Types.ObjectId(),
+      room: roomId,
+      senderModel: 'User',
+      senderId: parentId,
+      type: MessageType.TEXT,
+      text: 'On my way',
+      createdAt: new Date(),
+      deletedAt: null,
+      hiddenFor: [],
+      reactions: [],
+      ...overrides,
+      save: jest.fn(),
+      set(values: any) {
+        Object.assign(this, values);
+      },
+      toObject() {
+        return Object.fromEntries(
+          Object.entries(this).filter(
+            ([, value]) => typeof value !== 'function',
+          ),
+        );
+      },
+    });
+
+    beforeEach(() => {
+      // The edited/deleted message is not the room's latest one
+      messageModel.findOne.mockReturnValue({
+        sort: jest.fn(() => ({ select: jest.fn().mockResolvedValue(null) })),
+      });
+    });
+
+    it('edits a text message within the edit window', async () => {
+      const msg = buildMessage({
+        createdAt: new Date(Date.now() - 5 * 60 * 1000),
+      });
+      messageModel.findById.mockResolvedValue(msg);
+
+      const edited = await service.editMessage(
+        msg._id.toString(),
+        'Almost there',
+        parent,
+      );
+
+      expect(edited.text).toBe('Almost there');
+      expect(edited.isEdited).toBe(true);
+      expect(msg.save).toHaveBeenCalled();
+    });
+
+    it('refuses to edit once the edit window has passed', async () => {
+      const msg = buildMessage({
+        createdAt: new Date(Date.now() - 16 * 60 * 1000),
+      });
+      messageModel.findById.mockResolvedValue(msg);
+
+      await expect(
+        service.editMessage(msg._id.toString(), 'Almost there', parent),
+      ).rejects.toThrow(
+        'Messages can only be edited within 15 minutes of sending',
+      );
+      expect(msg.save).not.toHaveBeenCalled();
+    });
+
+    it('only lets the sender delete a message for everyone', async () => {
+      const msg = buildMessage();
+      messageModel.findById.mockResolvedValue(msg);
+
+      await expect(
+        service.deleteMessage(msg._id.toString(), 'everyone', child),
+      ).rejects.toThrow('You can only delete for everyone your own messages');
+      const deleted = await service.deleteMessage(
+        msg._id.toString(),
+        'everyone',
+        parent,
+      );
+
+      expect(deleted.isDeleted).toBe(true);
+      expect(deleted.text).toBeNull();
+    });
+
+    it('lets any member delete a message for themselves', async () => {
+      const msg = buildMessage();
+      messageModel.findById.mockResolvedValue(msg);
+
+      await service.deleteMessage(msg._id.toString(), 'me', child);
+
+      expect(messageModel.updateOne).toHaveBeenCalledWith(
+        { _id: msg._id },
+        { $addToSet: { hiddenFor: childId } },
+      );
+      expect(msg.deletedAt).toBeNull();
+    });
+
+    it('keeps one reaction per member and tallies them by emoji', async () => {
+      const msg = buildMessage();
+      messageModel.findById.mockResolvedValue(msg);
+
+      await service.setReaction(msg._id.toString(), '😂', parent);
+      await service.setReaction(msg._id.toString(), '👍', parent);
+      const reacted = await service.setReaction(
+        msg._id.toString(),
+        '👍',
+        child,
+      );
+
+      expect(msg.reactions).toHaveLength(2);
+      expect(reacted.reactionCounts).toEqual([
+        { emoji: '👍', count: 2, reactedByMe: false },
+      ]);
+    });
+
+    it('accepts exactly one emoji as a reaction', async () => {
+      const msg = buildMessage();
+      messageModel.findById.mockResolvedValue(msg);
+
+      for (const emoji of ['👍🏽', '🇲🇦', '👨‍👩‍👧', '❤️']) {
+        await expect(
+          service.setReaction(msg._id.toString(), emoji, parent),
+        ).resolves.toBeDefined();
+      }
+      for (const emoji of ['hello😀', '😀😀', 'ok']) {
+        await expect(
+          service.setReaction(msg._id.toString(), emoji, parent),
+        ).rejects.toThrow('emoji must be a single emoji');
+      }
+    });
+  });
+});
@@ -1,23 +1,39 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Room, RoomDocument } from './schemas/room.schema';
-import { Message, MessageDocument, MessageType } from './schemas/message.schema';
+import {
+  Room,
+  RoomDocument,
+  RoomParticipant,
+  RoomType,
+} from './schemas/room.schema';
+import {
+  Message,
+  MessageAttachment,
+  MessageDocument,
+  MessageType,
+} from './schemas/message.schema';
 import { Child, ChildDocument } from '../child/schemas/child.schema';
 import { User, UserDocument, UserRole } from '../user/schemas/user.schema';
-import mongoose from 'mongoose';
 
 interface SendTextDto {
   roomId: string;
   text: string;
   senderModel: 'User' | 'Child';
   senderId: string;
+  replyToId?: string | null;
 }
 
 interface SendAudioDto {
   roomId: string;
   senderModel: 'User' | 'Child';
   senderId: string;
+  replyToId?: string | null;
   audio: {
     url: string;
     durationSec?: number | null;
@@ -27,6 +43,37 @@ interface SendAudioDto {
   };
 }
 
+interface SendAttachmentDto {
+  roomId: string;
+  senderModel: 'User' | 'Child';
+  senderId: string;
+  type: MessageType.IMAGE | MessageType.VIDEO | MessageType.FILE;
+  caption?: string | null;
+  attachment: MessageAttachment;
+  replyToId?: string | null;
+}
+
+interface CheckInMessageData {
+  placeLabel: string | null;
+  location: { lat: number; lng: number; accuracy: number | null } | null;
+}
+
+export interface CheckInPage {
+  items: Message[];
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface ChatParticipant {
+  id: string;
+  type: 'user' | 'child';
+  firstName: string | null;
+  lastName: string | null;
+  avatarUrl: string | null;
+}
+
 interface SendSignalDto {
   roomId: string;
   senderModel: 'User' | 'Child';
@@ -35,11 +82,27 @@ interface SendSignalDto {
   payload: Record<string, any>;
 }
 
+// Exactly one emoji: a flag, a keycap, or a pictograph with its modifiers, ZWJ joins and tags
+const SINGLE_EMOJI =
+  /^(?:\p{Regional_Indicator}{2}|[0-9#*]\uFE0F?\u20E3|\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?(?:\u200D\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?)*[\u{E0020}-\u{E007E}]*\u{E007F}?)$/u;
+
+// Messages shown in the chat timeline (call signals are stored for the call only)
+const CHAT_MESSAGE_TYPES = [
+  MessageType.TEXT,
+  MessageType.AUDIO,
+  MessageType.IMAGE,
+  MessageType.VIDEO,
+  MessageType.FILE,
+  MessageType.CHECK_IN,
+  MessageType.MISSED_CALL,
+];
+
 @Injectable()
 export class MessageService {
   constructor(
     @InjectModel(Room.name) private readonly roomModel: Model<RoomDocument>,
-    @InjectModel(Message.name) private readonly messageModel: Model<MessageDocument>,
+    @InjectModel(Message.name)
+    private readonly messageModel: Model<MessageDocument>,
     @InjectModel(Child.name) private readonly childModel: Model<ChildDocument>,
     @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
   ) {}
@@ -47,7 +110,10 @@ export class MessageService {
   /**
    * Get or create a room for a parent-child pair
    */
-  async getOrCreateRoom(parentId: string, childId: string): Promise<RoomDocument> {
+  async getOrCreateRoom(
+    parentId: string,
+    childId: string,
+  ): Promise<RoomDocument> {
     const parentObjectId = new Types.ObjectId(parentId);
     const childObjectId = new Types.ObjectId(childId);
 
@@ -58,26 +124,40 @@ export class MessageService {
     }
     const isLinked =
       child.parent?.equals(parentObjectId) ||
-      (Array.isArray(child.linkedParents) && child.linkedParents.some((p) => p.equals(parentObjectId)));
+      (Array.isArray(child.linkedParents) &&
+        child.linkedParents.some((p) => p.equals(parentObjectId)));
     if (!isLinked) {
       throw new ForbiddenException('Parent is not linked to this child');
     }
 
     // Find or create room
     let room = await this.roomModel
-      .findOne({ parent: parentObjectId, child: childObjectId })
+      .findOne({
+        parent: parentObjectId,
+        child: childObjectId,
+        type: RoomType.DIRECT,
+      })
       .populate('child', 'firstName lastName avatarUrl')
       .populate('parent', 'firstName lastName avatarUrl')
       .populate('invitedParents', 'firstName lastName avatarUrl');
     if (!room) {
       await this.roomModel.create({
+        type: RoomType.DIRECT,
         parent: parentObjectId,
         child: childObjectId,
+        participants: [
+          { participantModel: 'Child', participant: childObjectId },
+          { participantModel: 'User', participant: parentObjectId },
+        ],
         isActive: true,
       });
       // Refetch with populate after creation
       room = await this.roomModel
-        .findOne({ parent: parentObjectId, child: childObjectId })
+        .findOne({
+          parent: parentObjectId,
+          child: childObjectId,
+          type: RoomType.DIRECT,
+        })
         .populate('child', 'firstName lastName avatarUrl')
         .populate('parent', 'firstName lastName avatarUrl')
         .populate('invitedParents', 'firstName lastName avatarUrl');
@@ -101,68 +181,200 @@ export class MessageService {
   }
 
   /**
-   * Assert user has access to room
+   * Get or create the family room of a child (the child and all of their parents)
+   * Open to the child, their main and linked parents, and admins
    */
-  private async assertRoomAccess(room: RoomDocument, currentUser: any): Promise<void> {
-    if (currentUser.role === UserRole.ADMIN) {
-      return; // Admin can access any room
+  async getOrCreateFamilyRoom(
+    childId: string,
+    currentUser: any,
+  ): Promise<RoomDocument> {
+    const child = await this.childModel.findById(childId);
+    if (!child) {
+      throw new NotFoundException('Child not found');
     }
-
-    if (currentUser.type === 'child') {
-      // Child can only access their own room
-      if (!room.child.equals(new Types.ObjectId(currentUser.id))) {
-        throw new ForbiddenException('You can only access your own room');
+    if (currentUser.role !== UserRole.ADMIN) {
+      const isFamily =
+        currentUser.type === 'child'
+          ? currentUser.id === childId
+          : child.parent.toString() === currentUser.id ||
+            child.linkedParents.some((p) => p.toString() === currentUser.id);
+      if (!isFamily) {
+        throw new ForbiddenException(
+          'You can only open the family room of your own child',
+        );
       }
-    } else {
-      // Parent can access if they are:
-      // 1. The main parent
-      // 2. An invited parent
-      // 3. A linked parent of the room's child
-      const userObjectId = new Types.ObjectId(currentUser.id);
-      const isMainParent = room.parent.equals(userObjectId);
-      const isInvitedParent = Array.isArray(room.invitedParents) && 
-        room.invitedParents.some((p) => p.equals(userObjectId));
-      let isLinkedParent = false;
-      if (!isMainParent && !isInvitedParent) {
-        const childDoc = await this.childModel.findById(room.child).select('_id linkedParents');
-        if (childDoc && Array.isArray((childDoc as any).linkedParents)) {
-          isLinkedParent = (childDoc as any).linkedParents.some((p: Types.ObjectId) => p.equals(userObjectId));
+    }
+
+    const existing = await this.roomModel.findOne({
+      child: child._id,
+      type: RoomType.FAMILY,
+    });
+    if (!existing) {
+      try {
+        await this.roomModel.create({
+          type: RoomType.FAMILY,
+          parent: child.parent,
+          child: child._id,
+          participants: this.familyParticipants(child, []),
+          isActive: true,
+        });
+      } catch (error: any) {
+        // Created concurrently by another family member
+        if (error.code !== 11000) {
+          throw error;
         }
       }
-      if (!isMainParent && !isInvitedParent && !isLinkedParent) {
-        // clearer message
-        throw new ForbiddenException('You can only access rooms for your own child (main/linked) or rooms you are invited to');
-      }
     }
+
+    const room = await this.roomModel
+      .findOne({ child: child._id, type: RoomType.FAMILY })
+      .populate('child', 'firstName lastName avatarUrl')
+      .populate('parent', 'firstName lastName avatarUrl')
+      .populate('invitedParents', 'firstName lastName avatarUrl');
+    if (!room) {
+      throw new Error('Failed to create family room');
+    }
+    return room;
+  }
+
+  /**
+   * Refresh the members of a child's family room after their parent links changed
+   * No-op if the child has no family room
+   */
+  async syncFamilyRoom(childId: string): Promise<void> {
+    const child = await this.childModel
+      .findById(childId)
+      .select('parent linkedParents');
+    if (!child) {
+      return;
+    }
+    const room = await this.roomModel.findOne({
+      child: child._id,
+      type: RoomType.FAMILY,
+    });
+    if (!room) {
+      return;
+    }
+
+    room.parent = child.parent;
+    room.participants = this.familyParticipants(
+      child,
+      room.invitedParents ?? [],
+    );
+    await room.save();
+  }
+
+  private familyParticipants(
+    child: ChildDocument,
+    invitedParents: Types.ObjectId[],
+  ): RoomParticipant[] {
+    const parentIds = new Set(
+      [child.parent, ...(child.linkedParents ?? []), ...invitedParents].map(
+        (p) => p.toString(),
+      ),
+    );
+    return [
+      { participantModel: 'Child', participant: child._id as Types.ObjectId },
+      ...[...parentIds].map((id) => ({
+        participantModel: 'User' as const,
+        participant: new Types.ObjectId(id),
+      })),
+    ];
+  }
+
+  private isParticipant(
+    room: RoomDocument,
+    participantModel: 'User' | 'Child',
+    id: string,
+  ): boolean {
+    const objectId = new Types.ObjectId(id);
+    return (room.participants ?? []).some(
+      (p) =>
+        p.participantModel === participantModel &&
+        p.participant.equals(objectId),
+    );
   }
 
   /**
-   * List all rooms for a parent (one per child)
-   * Includes rooms where user is main parent OR invited parent
+   * Assert user has access to room (admin or room member)
+   */
+  private assertRoomAccess(room: RoomDocument, currentUser: any): void {
+    if (currentUser.role === UserRole.ADMIN) {
+      return; // Admin can access any room
+    }
+
+    const model = currentUser.type === 'child' ? 'Child' : 'User';
+    if (!this.isParticipant(room, model, currentUser.id)) {
+      throw new ForbiddenException(
+        currentUser.type === 'child'
+          ? 'You can only access your own rooms'
+          : 'You can only access rooms you are a member of',
+      );
+    }
+  }
+
+  /**
+   * List all rooms a parent is a member of (direct rooms and family rooms)
    */
   async listRoomsForParent(parentId: string, currentUser: any): Promise<any[]> {
     if (currentUser.role !== UserRole.ADMIN && currentUser.id !== parentId) {
       throw new ForbiddenException('You can only view your own rooms');
     }
     const parentObjectId = new Types.ObjectId(parentId);
-    return this.roomModel
-      .find({
-        $or: [
-          { parent: parentObjectId, isActive: true },
-          { invitedParents: parentObjectId, isActive: true },
-        ],
-      })
+    const rooms = await this.roomModel
+      .find({ 'participants.participant': parentObjectId, isActive: true })
       .populate('child', 'firstName lastName avatarUrl')
       .populate('parent', 'firstName lastName avatarUrl')
       .populate('invitedParents', 'firstName lastName avatarUrl')
       .sort({ 'lastMessage.createdAt': -1 })
       .lean();
+
+    const unreadCounts = await this.countUnreadByRoom(
+      rooms.map((room) => room._id as Types.ObjectId),
+      parentObjectId,
+    );
+    return rooms.map((room) => ({
+      ...room,
+      unreadCount:
+        unreadCounts.get((room._id as Types.ObjectId).toString()) ?? 0,
+    }));
+  }
+
+  /**
+   * Count messages from others that a reader has not read yet, per room
+   */
+  private async countUnreadByRoom(
+    roomIds: Types.ObjectId[],
+    readerId: Types.ObjectId,
+  ): Promise<Map<string, number>> {
+    if (roomIds.length === 0) {
+      return new Map();
+    }
+    const counts = await this.messageModel.aggregate([
+      {
+        $match: {
+          room: { $in: roomIds },
+          type: { $in: CHAT_MESSAGE_TYPES },
+          senderId: { $ne: readerId },
+          hiddenFor: { $ne: readerId }, // deleted for me
+          deletedAt: null, // deleted for everyone
+          receipts: {
+            $not: { $elemMatch: { reader: readerId, readAt: { $ne: null } } },
+          },
+        },
+      },
+      { $group: { _id: '$room', count: { $sum: 1 } } },
+    ]);
+    return new Map(counts.map((entry) => [entry._id.toString(), entry.count]));
   }
 
   /**
    * Get room for a child (their room with parent)
    */
-  async getRoomForChild(childId: string, currentUser: any): Promise<RoomDocument> {
+  async getRoomForChild(
+    childId: string,
+    currentUser: any,
+  ): Promise<RoomDocument> {
     if (currentUser.type !== 'child') {
       throw new ForbiddenException('This endpoint is only for children');
     }
@@ -176,7 +388,11 @@ export class MessageService {
     }
 
     const room = await this.roomModel
-      .findOne({ child: new Types.ObjectId(childId), isActive: true })
+      .findOne({
+        child: new Types.ObjectId(childId),
+        type: RoomType.DIRECT,
+        isActive: true,
+      })
       .populate('child', 'firstName lastName avatarUrl')
       .populate('parent', 'firstName lastName avatarUrl')
       .populate('invitedParents', 'firstName lastName avatarUrl');
@@ -201,15 +417,72 @@ export class MessageService {
     if (!room) {
       throw new NotFoundException('Room not found');
     }
-    await this.assertRoomAccess(room, currentUser);
+    this.assertRoomAccess(room, currentUser);
     return room;
   }
 
+  /**
+   * Child and members of a room, for server-side fan-out (no access check)
+   */
+  async getRoomMembers(
+    roomId: string,
+  ): Promise<{ childId: string; participants: RoomParticipant[] }> {
+    const room = await this.roomModel
+      .findById(roomId)
+      .select('child participants');
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    return {
+      childId: room.child.toString(),
+      participants: room.participants ?? [],
+    };
+  }
+
+  /**
+   * Check the current user may use a room (throws otherwise)
+   */
+  async assertCanAccessRoom(roomId: string, currentUser: any): Promise<void> {
+    const room = await this.roomModel.findById(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    this.assertRoomAccess(room, currentUser);
+  }
+
+  /**
+   * Display info of a chat participant (parent or child) for presence and typing
+   */
+  async getParticipantProfile(currentUser: any): Promise<ChatParticipant> {
+    const isChild = currentUser.type === 'child';
+    const profile: any = isChild
+      ? await this.childModel
+          .findById(currentUser.id)
+          .select('firstName lastName avatarUrl')
+          .lean()
+      : await this.userModel
+          .findById(currentUser.id)
+          .select('firstName lastName avatarUrl')
+          .lean();
+
+    return {
+      id: currentUser.id,
+      type: isChild ? 'child' : 'user',
+      firstName: profile?.firstName ?? null,
+      lastName: profile?.lastName ?? null,
+      avatarUrl: profile?.avatarUrl ?? null,
+    };
+  }
+
   /**
    * Invite a parent to join a room
    * Only the main parent can invite other parents
    */
-  async inviteParent(roomId: string, invitedParentId: string, currentUser: any): Promise<RoomDocument> {
+  async inviteParent(
+    roomId: string,
+    invitedParentId: string,
+    currentUser: any,
+  ): Promise<RoomDocument> {
     const room = await this.roomModel.findById(roomId);
     if (!room) {
       throw new NotFoundException('Room not found');
@@ -217,7 +490,9 @@ export class MessageService {
 
     // Only main parent can invite
     if (!room.parent.equals(new Types.ObjectId(currentUser.id))) {
-      throw new ForbiddenException('Only the main parent can invite other parents');
+      throw new ForbiddenException(
+        'Only the main parent can invite other parents',
+      );
     }
 
     // Verify invited parent exists and is a parent
@@ -234,13 +509,25 @@ export class MessageService {
     if (room.parent.equals(invitedParentObjectId)) {
       throw new ForbiddenException('Cannot invite the main parent');
     }
-    if (Array.isArray(room.invitedParents) && room.invitedParents.some((p) => p.equals(invitedParentObjectId))) {
+    if (
+      Array.isArray(room.invitedParents) &&
+      room.invitedParents.some((p) => p.equals(invitedParentObjectId))
+    ) {
       throw new ForbiddenException('Parent is already invited to this room');
     }
+    if (this.isParticipant(room, 'User', invitedParentId)) {
+      throw new ForbiddenException('Parent is already a member of this room');
+    }
 
-    // Add to invited parents
+    // Add to invited parents and members
     await this.roomModel.findByIdAndUpdate(roomId, {
-      $addToSet: { invitedParents: invitedParentObjectId },
+      $addToSet: {
+        invitedParents: invitedParentObjectId,
+        participants: {
+          participantModel: 'User',
+          participant: invitedParentObjectId,
+        },
+      },
     });
 
     // Return updated room with populated fields
@@ -249,7 +536,7 @@ export class MessageService {
       .populate('child', 'firstName lastName avatarUrl')
       .populate('parent', 'firstName lastName avatarUrl')
       .populate('invitedParents', 'firstName lastName avatarUrl');
-    
+
     if (!updatedRoom) {
       throw new NotFoundException('Room not found after update');
     }
@@ -260,7 +547,11 @@ export class MessageService {
    * Remove an invited parent from a room
    * Only the main parent can remove invited parents
    */
-  async removeInvitedParent(roomId: string, invitedParentId: string, currentUser: any): Promise<RoomDocument> {
+  async removeInvitedParent(
+    roomId: string,
+    invitedParentId: string,
+    currentUser: any,
+  ): Promise<RoomDocument> {
     const room = await this.roomModel.findById(roomId);
     if (!room) {
       throw new NotFoundException('Room not found');
@@ -268,15 +559,25 @@ export class MessageService {
 
     // Only main parent can remove
     if (!room.parent.equals(new Types.ObjectId(currentUser.id))) {
-      throw new ForbiddenException('Only the main parent can remove invited parents');
+      throw new ForbiddenException(
+        'Only the main parent can remove invited parents',
+      );
     }
 
     const invitedParentObjectId = new Types.ObjectId(invitedParentId);
-    
-    // Remove from invited parents
+
+    // Remove from invited parents and members
     await this.roomModel.findByIdAndUpdate(roomId, {
       $pull: { invitedParents: invitedParentObjectId },
     });
+    if (room.type === RoomType.FAMILY) {
+      // A linked parent stays a member of the family room
+      await this.syncFamilyRoom(room.child.toString());
+    } else {
+      await this.roomModel.findByIdAndUpdate(roomId, {
+        $pull: { participants: { participant: invitedParentObjectId } },
+      });
+    }
 
     // Return updated room with populated fields
     const updatedRoom = await this.roomModel
@@ -284,7 +585,7 @@ export class MessageService {
       .populate('child', 'firstName lastName avatarUrl')
       .populate('parent', 'firstName lastName avatarUrl')
       .populate('invitedParents', 'firstName lastName avatarUrl');
-    
+
     if (!updatedRoom) {
       throw new NotFoundException('Room not found after update');
     }
@@ -292,58 +593,173 @@ export class MessageService {
   }
 
   /**
-   * Validate that sender is authorized for this room
-   * Allows: child (matching room.child), main parent, invited parent, or linked parent of the room's child
+   * Validate that sender is authorized for this room (must be a room member)
    */
-  private async validateSender(
-    room: import('./schemas/room.schema').RoomDocument,
+  private validateSender(
+    room: RoomDocument,
     senderModel: 'User' | 'Child',
     senderId: string,
-  ): Promise<void> {
-    const senderObjectId = new Types.ObjectId(senderId);
-
-    if (senderModel === 'Child') {
-      // Child must match the room's child
-      if (!room || !room.child || !room.child.equals(senderObjectId)) {
-        throw new ForbiddenException('senderId must match the child in this room');
-      }
-      return;
-    }
-
-    // senderModel === 'User' (parent)
-    const isMainParent = !!room.parent && room.parent.equals(senderObjectId);
-    const isInvitedParent = Array.isArray((room as any).records ? undefined : (room as any).invitedParents) &&
-      (room as any).invitedParents.some((p: any) => new Types.ObjectId(p).equals(senderObjectId));
-
-    if (isMainParent || isInvitedParent) {
-      return;
+  ): void {
+    if (!this.isParticipant(room, senderModel, senderId)) {
+      throw new ForbiddenException(
+        senderModel === 'Child'
+          ? 'senderId must match the child in this room'
+          : 'senderId must be a parent member of this room',
+      );
     }
-
-    // Fallback: allow linked parent of the room's child
-    const childDoc = await this.childModel.findById(room.child).select('_id linkedParents');
-    if (childDoc && Array.isArray((childDoc as any).linkedParents)) {
-      const isLinked = (childDoc as any).linkedParents.some((p: any) => new mongoose.Types.ObjectId(p).equals(senderObjectId));
-      if (isLinked) return;
-    }
-
-    throw new ForbiddenException('senderId must be the main parent, an invited parent, or a linked parent of the child in this room');
   }
 
   /**
    * List messages in a room
    */
-  async listMessages(roomId: string, currentUser: any, limit = 50, beforeId?: string): Promise<any[]> {
+  async listMessages(
+    roomId: string,
+    currentUser: any,
+    limit = 50,
+    beforeId?: string,
+  ): Promise<any[]> {
     const room = await this.roomModel.findById(roomId);
     if (!room) {
       throw new NotFoundException('Room not found');
     }
-    await this.assertRoomAccess(room, currentUser);
+    this.assertRoomAccess(room, currentUser);
 
-    const query: any = { room: new Types.ObjectId(roomId) };
+    const query: any = {
+      room: new Types.ObjectId(roomId),
+      hiddenFor: { $ne: new Types.ObjectId(currentUser.id) }, // deleted for me
+    };
     if (beforeId) {
       query._id = { $lt: new Types.ObjectId(beforeId) };
     }
-    return this.messageModel.find(query).sort({ _id: -1 }).limit(limit).lean();
+    const messages = await this.messageModel
+      .find(query)
+      .sort({ _id: -1 })
+      .limit(limit)
+      .lean();
+    return this.embedReplies(
+      messages.map((msg) => this.presentMessage(msg, currentUser.id)),
+    );
+  }
+
+  /**
+   * Check a replied-to message belongs to the room
+   */
+  private async resolveReplyTo(
+    room: RoomDocument,
+    replyToId?: string | null,
+  ): Promise<Types.ObjectId | null> {
+    if (!replyToId) {
+      return null;
+    }
+    if (!Types.ObjectId.isValid(replyToId)) {
+      throw new BadRequestException(
+        'replyToId must be a 24-char hex Mongo ObjectId',
+      );
+    }
+    const original = await this.messageModel.exists({
+      _id: new Types.ObjectId(replyToId),
+      room: room._id,
+    });
+    if (!original) {
+      throw new NotFoundException('Replied-to message not found in this room');
+    }
+    return new Types.ObjectId(replyToId);
+  }
+
+  /**
+   * Replace replyTo ids with a compact view of the quoted message (sender, type, short preview)
+   */
+  private async embedReplies(messages: any[]): Promise<any[]> {
+    const ids = [
+      ...new Set(
+        messages.filter((m) => m.replyTo).map((m) => m.replyTo.toString()),
+      ),
+    ];
+    if (ids.length === 0) {
+      return messages;
+    }
+
+    const originals = await this.messageModel
+      .find({ _id: { $in: ids.map((id) => new Types.ObjectId(id)) } })
+      .select(
+        'senderModel senderId type text attachment.fileName deletedAt createdAt',
+      )
+      .lean();
+    const byId = new Map(
+      originals.map((original) => [
+        (original._id as Types.ObjectId).toString(),
+        original,
+      ]),
+    );
+
+    const previews: Partial<Record<MessageType, string>> = {
+      [MessageType.AUDIO]: '[Audio]',
+      [MessageType.IMAGE]: '[Photo]',
+      [MessageType.VIDEO]: '[Video]',
+      [MessageType.FILE]: '[File]',
+    };
+
+    return messages.map((msg) => {
+      if (!msg.replyTo) {
+        return msg;
+      }
+      const original: any = byId.get(msg.replyTo.toString());
+      if (!original) {
+        return { ...msg, replyTo: { _id: msg.replyTo, isDeleted: true } };
+      }
+      const preview = original.deletedAt
+        ? null
+        : original.text
+          ? original.text.slice(0, 100)
+          : (original.attachment?.fileName ??
+            previews[original.type as MessageType] ??
+            null);
+      return {
+        ...msg,
+        replyTo: {
+          _id: original._id,
+          senderModel: original.senderModel,
+          senderId: original.senderId,
+          type: original.type,
+          preview,
+          isDeleted: !!original.deletedAt,
+          createdAt: original.createdAt,
+        },
+      };
+    });
+  }
+
+  /**
+   * Shape a message for clients: edited/deleted markers and reaction tallies
+   * reactedByMe is only meaningful when the viewer is known
+   */
+  private presentMessage(msg: any, viewerId?: string): any {
+    // Who deleted the message for themselves stays server-side
+    const rest = { ...msg };
+    delete rest.hiddenFor;
+    const tallies = new Map<
+      string,
+      { emoji: string; count: number; reactedByMe: boolean }
+    >();
+    for (const reaction of msg.reactions ?? []) {
+      const tally = tallies.get(reaction.emoji) ?? {
+        emoji: reaction.emoji,
+        count: 0,
+        reactedByMe: false,
+      };
+      tally.count++;
+      tally.reactedByMe =
+        tally.reactedByMe ||
+        (!!viewerId && reaction.reactor.toString() === viewerId);
+      tallies.set(reaction.emoji, tally);
+    }
+
+    return {
+      ...rest,
+      isEdited: !!msg.editedAt,
+      isDeleted: !!msg.deletedAt,
+      reactionCounts: [...tallies.values()].sort((a, b) => b.count - a.count),
+    };
   }
 
   /**
@@ -358,11 +774,13 @@ export class MessageService {
     if (!room) {
       throw new NotFoundException('Room not found');
     }
-    await this.assertRoomAccess(room, currentUser);
+    this.assertRoomAccess(room, currentUser);
 
     const query: any = {
       room: room._id,
       type: MessageType.AUDIO,
+      deletedAt: null,
+      hiddenFor: { $ne: new Types.ObjectId(currentUser.id) },
     };
 
     switch (options?.sender) {
@@ -380,25 +798,25 @@ export class MessageService {
         break;
     }
 
-    return this.messageModel
-      .find(query)
-      .sort({ createdAt: -1 })
-      .lean();
+    return this.messageModel.find(query).sort({ createdAt: -1 }).lean();
   }
 
   /**
    * Send a text message
    */
-  async sendReserved(dto: any): Promise<any> { return dto; }
+  async sendReserved(dto: any): Promise<any> {
+    return dto;
+  }
   async sendText(dto: SendTextDto, currentUser: any): Promise<any> {
     const room = await this.roomModel.findById(dto.roomId);
     if (!room) {
       throw new NotFoundException('Room not found');
     }
-    await this.assertRoomAccess(room, currentUser);
+    this.assertRoomAccess(room, currentUser);
 
     // Validate sender (allows main parent, invited parent, or linked parent; child must match)
-    await this.validateSender(room as any, dto.senderModel as any, dto.senderId);
+    this.validateSender(room as any, dto.senderModel as any, dto.senderId);
+    const replyTo = await this.resolveReplyTo(room, dto.replyToId);
 
     const msg = await this.messageModel.create({
       room: (room as any)._id,
@@ -406,6 +824,7 @@ export class MessageService {
       senderId: new Types.ObjectId(dto.senderId),
       type: MessageType.TEXT,
       text: dto.text,
+      replyTo,
     });
 
     // Update room's last message
@@ -420,7 +839,8 @@ export class MessageService {
       },
     });
 
-    return (msg as any).toString ? (msg as any).toObject() : (msg as any);
+    const [sent] = await this.embedReplies([(msg as any).toObject()]);
+    return sent;
   }
 
   /**
@@ -431,10 +851,11 @@ export class MessageService {
     if (!room) {
       throw new NotFoundException('Room not found');
     }
-    await this.assertRoomAccess(room, currentUser);
+    this.assertRoomAccess(room, currentUser);
 
     // Validate sender (allows main parent, invited parent, or linked parent; child must match)
-    await this.validateSender(room, dto.senderModel, dto.senderId);
+    this.validateSender(room, dto.senderModel, dto.senderId);
+    const replyTo = await this.resolveReplyTo(room, dto.replyToId);
 
     const msg = await this.messageModel.create({
       room: room._id,
@@ -442,6 +863,7 @@ export class MessageService {
       senderId: new Types.ObjectId(dto.senderId),
       type: MessageType.AUDIO,
       audio: dto.audio,
+      replyTo,
     });
 
     // Update room's last message
@@ -456,7 +878,55 @@ export class MessageService {
       },
     });
 
-    return (msg as any).toObject();
+    const [sent] = await this.embedReplies([(msg as any).toObject()]);
+    return sent;
+  }
+
+  /**
+   * Send an image, video or file message
+   */
+  async sendAttachment(dto: SendAttachmentDto, currentUser: any): Promise<any> {
+    const room = await this.roomModel.findById(dto.roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    this.assertRoomAccess(room, currentUser);
+
+    // Validate sender (allows main parent, invited parent, or linked parent; child must match)
+    this.validateSender(room, dto.senderModel, dto.senderId);
+
+    const msg = await this.messageModel.create({
+      room: room._id,
+      senderModel: dto.senderModel,
+      senderId: new Types.ObjectId(dto.senderId),
+      type: dto.type,
+      text: dto.caption || null,
+      attachment: dto.attachment,
+      replyTo: await this.resolveReplyTo(room, dto.replyToId),
+    });
+
+    const previews = {
+      [MessageType.IMAGE]: '[Photo]',
+      [MessageType.VIDEO]: '[Video]',
+      [MessageType.FILE]: '[File]',
+    };
+
+    // Update room's last message
+    await this.roomModel.findByIdAndUpdate(room._id, {
+      $set: {
+        lastMessage: {
+          text: dto.caption
+            ? `${previews[dto.type]} ${dto.caption}`
+            : previews[dto.type],
+          senderModel: dto.senderModel,
+          senderId: (msg as any).senderId,
+          createdAt: new Date(),
+        },
+      },
+    });
+
+    const [sent] = await this.embedReplies([(msg as any).toObject()]);
+    return sent;
   }
 
   /**
@@ -467,20 +937,489 @@ export class MessageService {
     if (!room) {
       throw new NotFoundException('Room not found');
     }
-    await this.assertRoomAccess(room, currentUser);
+    this.assertRoomAccess(room, currentUser);
 
     // Validate sender (allows main parent, invited parent, or linked parent; child must match)
-    await this.validateSender(room, dto.senderModel, dto.senderId);
+    this.validateSender(room, dto.senderModel, dto.senderId);
 
-    const msg = await this.messageModel.create({
+    const signal = {
       room: room._id,
       senderModel: dto.senderModel,
       senderId: new Types.ObjectId(dto.senderId),
       type: MessageType[dto.type],
       signalingPayload: dto.payload,
-    });
+    };
+
+    // ICE candidates are only relayed: they are useless once the call is set up
+    if (dto.type === 'ICE_CANDIDATE') {
+      return { _id: new Types.ObjectId(), ...signal, createdAt: new Date() };
+    }
+
+    const msg = await this.messageModel.create(signal);
 
     return (msg as any).toObject();
   }
-}
 
+  /**
+   * Post a missed call entry in the call's room, on behalf of the caller
+   */
+  async sendMissedCall(call: {
+    _id: any;
+    room: Types.ObjectId;
+    callerModel: 'User' | 'Child';
+    caller: Types.ObjectId;
+  }): Promise<any> {
+    const msg = await this.messageModel.create({
+      room: call.room,
+      senderModel: call.callerModel,
+      senderId: call.caller,
+      type: MessageType.MISSED_CALL,
+      text: 'Missed call',
+      call: call._id,
+    });
+
+    // Update room's last message
+    await this.roomModel.findByIdAndUpdate(call.room, {
+      $set: {
+        lastMessage: {
+          text: `📞 ${msg.text}`,
+          senderModel: call.callerModel,
+          senderId: call.caller,
+          createdAt: new Date(),
+        },
+      },
+    });
+
+    return msg.toObject();
+  }
+
+  /**
+   * Post a child's check-in in their family room, or their room with the main parent
+   * Access is checked by the caller (the child checking in)
+   */
+  async sendCheckIn(
+    childId: string,
+    checkIn: CheckInMessageData,
+  ): Promise<any> {
+    const child = await this.childModel.findById(childId);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+    // Every parent sees it in the family room; otherwise it goes to the main parent
+    const room =
+      (await this.roomModel.findOne({
+        child: child._id,
+        type: RoomType.FAMILY,
+        isActive: true,
+      })) ?? (await this.getOrCreateRoom(child.parent.toString(), childId));
+
+    const msg = await this.messageModel.create({
+      room: room._id,
+      senderModel: 'Child',
+      senderId: child._id,
+      type: MessageType.CHECK_IN,
+      text: checkIn.placeLabel
+        ? `Arrived at ${checkIn.placeLabel}`
+        : 'Checked in',
+      checkIn,
+    });
+
+    // Update room's last message
+    await this.roomModel.findByIdAndUpdate(room._id, {
+      $set: {
+        lastMessage: {
+          text: `📍 ${msg.text}`,
+          senderModel: 'Child',
+          senderId: child._id,
+          createdAt: new Date(),
+        },
+      },
+    });
+
+    return msg.toObject();
+  }
+
+  /**
+   * List a child's check-ins (newest first), whatever room they were posted in
+   */
+  async listCheckIns(
+    childId: string,
+    readerId: string,
+    page: number,
+    limit: number,
+  ): Promise<CheckInPage> {
+    // Same visibility as the room history: not deleted for everyone, nor by the reader
+    const filter = {
+      senderModel: 'Child',
+      senderId: new Types.ObjectId(childId),
+      type: MessageType.CHECK_IN,
+      deletedAt: null,
+      hiddenFor: { $ne: new Types.ObjectId(readerId) },
+    };
+
+    const [items, total] = await Promise.all([
+      this.messageModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<Message[]>(),
+      this.messageModel.countDocuments(filter),
+    ]);
+
+    return {
+      items,
+      page,
+      limit,
+      total,
+      hasMore: page * limit < total,
+    };
+  }
+
+  /**
+   * Copy a text or audio message into another room the current user belongs to
+   */
+  async forwardMessage(
+    messageId: string,
+    targetRoomId: string,
+    currentUser: any,
+  ): Promise<any> {
+    const source = await this.findMessageForMember(messageId, currentUser);
+    if (source.deletedAt) {
+      throw new BadRequestException('Cannot forward a deleted message');
+    }
+    if (source.type !== MessageType.TEXT && source.type !== MessageType.AUDIO) {
+      throw new BadRequestException(
+        'Only text and audio messages can be forwarded',
+      );
+    }
+
+    const room = await this.roomModel.findById(targetRoomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    this.assertRoomAccess(room, currentUser);
+    const senderModel = currentUser.type === 'child' ? 'Child' : 'User';
+    this.validateSender(room, senderModel, currentUser.id);
+
+    const original = source.toObject();
+    const msg = await this.messageModel.create({
+      room: room._id,
+      senderModel,
+      senderId: new Types.ObjectId(currentUser.id),
+      type: source.type,
+      text: original.text ?? null,
+      audio: source.type === MessageType.AUDIO ? original.audio : undefined,
+      forwardedFrom: {
+        message: source._id,
+        senderModel: source.senderModel,
+        senderId: source.senderId,
+      },
+    });
+
+    // Update room's last message
+    await this.roomModel.findByIdAndUpdate(room._id, {
+      $set: {
+        lastMessage: {
+          text: source.type === MessageType.AUDIO ? '[Audio]' : original.text,
+          senderModel,
+          senderId: msg.senderId,
+          createdAt: new Date(),
+        },
+      },
+    });
+
+    return msg.toObject();
+  }
+
+  /**
+   * How long after sending a text message it can still be edited (env MESSAGE_EDIT_WINDOW_MINUTES)
+   */
+  private getEditWindowMinutes(): number {
+    const minutes = parseInt(
+      process.env.MESSAGE_EDIT_WINDOW_MINUTES || '15',
+      10,
+    );
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : 15;
+  }
+
+  /**
+   * Load a message the current user can see (room member, not deleted for them)
+   */
+  private async findMessageForMember(
+    messageId: string,
+    currentUser: any,
+  ): Promise<MessageDocument> {
+    const msg = await this.messageModel.findById(messageId);
+    if (
+      !msg ||
+      (msg.hiddenFor ?? []).some((id) =>
+        id.equals(new Types.ObjectId(currentUser.id)),
+      )
+    ) {
+      throw new NotFoundException('Message not found');
+    }
+    const room = await this.roomModel.findById(msg.room);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    this.assertRoomAccess(room, currentUser);
+    return msg;
+  }
+
+  private assertSentBy(
+    msg: MessageDocument,
+    currentUser: any,
+    action: string,
+  ): void {
+    const model = currentUser.type === 'child' ? 'Child' : 'User';
+    if (
+      msg.senderModel !== model ||
+      msg.senderId.toString() !== currentUser.id
+    ) {
+      throw new ForbiddenException(`You can only ${action} your own messages`);
+    }
+  }
+
+  /**
+   * Keep the room preview in line when its latest message is edited or deleted
+   */
+  private async refreshLastMessagePreview(
+    msg: MessageDocument,
+    text: string,
+  ): Promise<void> {
+    const latest = await this.messageModel
+      .findOne({ room: msg.room })
+      .sort({ _id: -1 })
+      .select('_id');
+    if (
+      latest &&
+      (latest._id as Types.ObjectId).equals(msg._id as Types.ObjectId)
+    ) {
+      await this.roomModel.updateOne(
+        { _id: msg.room },
+        { $set: { 'lastMessage.text': text } },
+      );
+    }
+  }
+
+  /**
+   * Edit the text of one of the current user's text messages, within the edit window
+   */
+  async editMessage(
+    messageId: string,
+    text: string,
+    currentUser: any,
+  ): Promise<any> {
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new BadRequestException('text is required');
+    }
+    const msg = await this.findMessageForMember(messageId, currentUser);
+    this.assertSentBy(msg, currentUser, 'edit');
+
+    if (msg.deletedAt) {
+      throw new BadRequestException('Cannot edit a deleted message');
+    }
+    if (msg.type !== MessageType.TEXT) {
+      throw new BadRequestException('Only text messages can be edited');
+    }
+    const windowMinutes = this.getEditWindowMinutes();
+    if (
+      Date.now() - new Date((msg as any).createdAt).getTime() >
+      windowMinutes * 60 * 1000
+    ) {
+      throw new ForbiddenException(
+        `Messages can only be edited within ${windowMinutes} minutes of sending`,
+      );
+    }
+
+    msg.text = text;
+    msg.editedAt = new Date();
+    await msg.save();
+    await this.refreshLastMessagePreview(msg, text);
+
+    return this.presentMessage(msg.toObject());
+  }
+
+  /**
+   * Delete a message for the current user only, or for everyone (sender only)
+   * Deleting for everyone clears the content and keeps a tombstone in the timeline
+   */
+  async deleteMessage(
+    messageId: string,
+    scope: 'me' | 'everyone',
+    currentUser: any,
+  ): Promise<any> {
+    const msg = await this.findMessageForMember(messageId, currentUser);
+
+    if (scope === 'me') {
+      await this.messageModel.updateOne(
+        { _id: msg._id },
+        { $addToSet: { hiddenFor: new Types.ObjectId(currentUser.id) } },
+      );
+      return { _id: msg._id, room: msg.room, scope };
+    }
+
+    this.assertSentBy(msg, currentUser, 'delete for everyone');
+    if (!msg.deletedAt) {
+      msg.set({
+        deletedAt: new Date(),
+        text: null,
+        audio: null,
+        attachment: null,
+        checkIn: null,
+        signalingPayload: null,
+        reactions: [],
+      });
+      await msg.save();
+      await this.refreshLastMessagePreview(msg, '🚫 Message deleted');
+    }
+
+    return { ...this.presentMessage(msg.toObject()), scope };
+  }
+
+  /**
+   * Set (or with null, remove) the current user's emoji reaction to a message
+   */
+  async setReaction(
+    messageId: string,
+    emoji: string | null,
+    currentUser: any,
+  ): Promise<any> {
+    if (
+      emoji !== null &&
+      (typeof emoji !== 'string' ||
+        emoji.length > 16 ||
+        !SINGLE_EMOJI.test(emoji))
+    ) {
+      throw new BadRequestException('emoji must be a single emoji');
+    }
+    const msg = await this.findMessageForMember(messageId, currentUser);
+    if (msg.deletedAt) {
+      throw new BadRequestException('Cannot react to a deleted message');
+    }
+
+    const reactor = new Types.ObjectId(currentUser.id);
+    msg.reactions = (msg.reactions ?? []).filter(
+      (r) => !r.reactor.equals(reactor),
+    );
+    if (emoji) {
+      msg.reactions.push({
+        reactorModel: currentUser.type === 'child' ? 'Child' : 'User',
+        reactor,
+        emoji,
+        reactedAt: new Date(),
+      });
+    }
+    await msg.save();
+
+    return this.presentMessage(msg.toObject());
+  }
+
+  /**
+   * Record that the current user received messages of a room, up to (and including) a message
+   */
+  async markDelivered(
+    roomId: string,
+    upToMessageId: string,
+    currentUser: any,
+  ): Promise<any> {
+    return this.recordReceipts(
+      roomId,
+      upToMessageId,
+      currentUser,
+      'deliveredAt',
+    );
+  }
+
+  /**
+   * Record that the current user read messages of a room, up to (and including) a message
+   * Reading implies delivery
+   */
+  async markRead(
+    roomId: string,
+    upToMessageId: string,
+    currentUser: any,
+  ): Promise<any> {
+    return this.recordReceipts(roomId, upToMessageId, currentUser, 'readAt');
+  }
+
+  /**
+   * Stamp the reader's receipt on every message from someone else up to a message
+   * Messages already stamped keep their first time
+   */
+  private async recordReceipts(
+    roomId: string,
+    upToMessageId: string,
+    currentUser: any,
+    field: 'deliveredAt' | 'readAt',
+  ): Promise<any> {
+    const room = await this.roomModel.findById(roomId);
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+    this.assertRoomAccess(room, currentUser);
+
+    const upTo = await this.messageModel
+      .findOne({ _id: new Types.ObjectId(upToMessageId), room: room._id })
+      .select('_id');
+    if (!upTo) {
+      throw new NotFoundException('Message not found in this room');
+    }
+
+    const readerModel: 'User' | 'Child' =
+      currentUser.type === 'child' ? 'Child' : 'User';
+    const readerId = new Types.ObjectId(currentUser.id);
+    const now = new Date();
+    const filter = {
+      room: room._id,
+      _id: { $lte: upTo._id },
+      senderId: { $ne: readerId },
+    };
+    const flags =
+      field === 'readAt'
+        ? { isDelivered: true, isRead: true }
+        : { isDelivered: true };
+
+    // Messages the reader already has a receipt on (delivered, maybe not read yet)
+    const stamped = await this.messageModel.updateMany(
+      {
+        ...filter,
+        receipts: { $elemMatch: { reader: readerId, [field]: null } },
+      },
+      {
+        $set: { ...flags, [`receipts.$[receipt].${field}`]: now },
+      },
+      {
+        arrayFilters: [
+          { 'receipt.reader': readerId, [`receipt.${field}`]: null },
+        ],
+      },
+    );
+
+    // Messages the reader has never acknowledged
+    const added = await this.messageModel.updateMany(
+      { ...filter, 'receipts.reader': { $ne: readerId } },
+      {
+        $set: flags,
+        $push: {
+          receipts: {
+            readerModel,
+            reader: readerId,
+            deliveredAt: now,
+            readAt: field === 'readAt' ? now : null,
+          },
+        },
+      },
+    );
+
+    return {
+      roomId,
+      readerModel,
+      readerId: currentUser.id,
+      upToMessageId,
+      [field]: now,
+      updated: stamped.modifiedCount + added.modifiedCount,
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CallDocument = Call & Document;
+
+export enum CallStatus {
+  RINGING = 'RINGING',
+  ACCEPTED = 'ACCEPTED',
+  REJECTED = 'REJECTED',
+  MISSED = 'MISSED',
+  ENDED = 'ENDED',
+}
+
+export interface CallParticipant {
+  participantModel: 'User' | 'Child';
+  participant: Types.ObjectId;
+  joinedAt: Date | null; // null while ringing or if they never picked up
+  leftAt: Date | null;
+}
+
+/**
+ * WebRTC call in a room, driven by the call signals relayed by the chat gateway
+ */
+@Schema({ timestamps: true })
+export class Call {
+  @Prop({ type: Types.ObjectId, ref: 'Room', required: true })
+  room: Types.ObjectId;
+
+  @Prop({ type: String, enum: ['User', 'Child'], required: true })
+  callerModel: 'User' | 'Child';
+
+  @Prop({ type: Types.ObjectId, required: true, refPath: 'callerModel' })
+  caller: Types.ObjectId;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        participantModel: {
+          type: String,
+          enum: ['User', 'Child'],
+          required: true,
+        },
+        participant: { type: Types.ObjectId, required: true },
+        joinedAt: { type: Date, default: null },
+        leftAt: { type: Date, default: null },
+      },
+    ],
+    default: [],
+  })
+  participants: CallParticipant[];
+
+  @Prop({ enum: CallStatus, default: CallStatus.RINGING })
+  status: CallStatus;
+
+  @Prop({ type: Date, default: null })
+  startedAt: Date | null; // when the call was accepted
+
+  @Prop({ type: Date, default: null })
+  endedAt: Date | null;
+
+  @Prop({ type: Number, default: null })
+  durationSec: number | null; // only for calls that were accepted
+
+  @Prop({ type: Types.ObjectId, default: null })
+  endedBy: Types.ObjectId | null;
+}
+
+export const CallSchema = SchemaFactory.createForClass(Call);
+
+// Index for call history of a room and for finding its ongoing call
+CallSchema.index({ room: 1, createdAt: -1 });
+CallSchema.index({ room: 1, status: 1 });
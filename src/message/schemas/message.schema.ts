@@ -3,12 +3,43 @@ import { Document, Types } from 'mongoose';
 
 export type MessageDocument = Message & Document;
 
+export interface MessageAttachment {
+  url: string;
+  thumbnailUrl: string | null; // images and videos uploaded to Cloudinary
+  mimeType: string;
+  sizeBytes: number;
+  fileName: string | null;
+  width: number | null;
+  height: number | null;
+  durationSec: number | null; // videos
+  cloudinaryPublicId: string | null;
+}
+
+export interface MessageReceipt {
+  readerModel: 'User' | 'Child';
+  reader: Types.ObjectId;
+  deliveredAt: Date | null;
+  readAt: Date | null;
+}
+
+export interface MessageReaction {
+  reactorModel: 'User' | 'Child';
+  reactor: Types.ObjectId;
+  emoji: string;
+  reactedAt: Date;
+}
+
 export enum MessageType {
   TEXT = 'TEXT',
   AUDIO = 'AUDIO',
+  IMAGE = 'IMAGE',
+  VIDEO = 'VIDEO',
+  FILE = 'FILE',
   CALL_OFFER = 'CALL_OFFER', // WebRTC offer SDP
   CALL_ANSWER = 'CALL_ANSWER', // WebRTC answer SDP
   ICE_CANDIDATE = 'ICE_CANDIDATE', // ICE candidate payload
+  CHECK_IN = 'CHECK_IN', // "I arrived" from the child
+  MISSED_CALL = 'MISSED_CALL', // call nobody picked up, sent on behalf of the caller
 }
 
 @Schema({ timestamps: true })
@@ -49,15 +80,116 @@ export class Message {
     cloudinaryPublicId?: string | null;
   };
 
+  // For image, video and file messages
+  @Prop({
+    type: {
+      url: { type: String, required: true },
+      thumbnailUrl: { type: String, default: null },
+      mimeType: { type: String, required: true },
+      sizeBytes: { type: Number, required: true },
+      fileName: { type: String, default: null },
+      width: { type: Number, default: null },
+      height: { type: Number, default: null },
+      durationSec: { type: Number, default: null },
+      cloudinaryPublicId: { type: String, default: null },
+    },
+    default: null,
+  })
+  attachment?: MessageAttachment | null;
+
+  // For check-in messages: where the child says they are
+  @Prop({
+    type: {
+      placeLabel: { type: String, default: null },
+      location: {
+        type: {
+          lat: { type: Number },
+          lng: { type: Number },
+          accuracy: { type: Number, default: null },
+        },
+        default: null,
+      },
+    },
+    default: null,
+  })
+  checkIn?: {
+    placeLabel: string | null;
+    location: { lat: number; lng: number; accuracy: number | null } | null;
+  } | null;
+
+  // Message this one replies to (same room)
+  @Prop({ type: Types.ObjectId, ref: 'Message', default: null })
+  replyTo?: Types.ObjectId | null;
+
+  // Set on forwarded copies: the original message and who sent it
+  @Prop({
+    type: {
+      message: { type: Types.ObjectId, ref: 'Message' },
+      senderModel: { type: String, enum: ['User', 'Child'] },
+      senderId: { type: Types.ObjectId },
+    },
+    default: null,
+  })
+  forwardedFrom?: {
+    message: Types.ObjectId;
+    senderModel: 'User' | 'Child';
+    senderId: Types.ObjectId;
+  } | null;
+
+  // For missed call entries: the call they stand for
+  @Prop({ type: Types.ObjectId, ref: 'Call', default: null })
+  call?: Types.ObjectId | null;
+
   // For call signaling messages (SDP or ICE)
   @Prop({ type: Object, default: null })
   signalingPayload?: Record<string, any> | null;
 
   @Prop({ default: false })
-  isDelivered: boolean;
+  isDelivered: boolean; // delivered to at least one reader
 
   @Prop({ default: false })
-  isRead: boolean;
+  isRead: boolean; // read by at least one reader
+
+  // Per-reader delivery/read times (main parent, invited parents, linked parents, child)
+  @Prop({
+    type: [
+      {
+        _id: false,
+        readerModel: { type: String, enum: ['User', 'Child'], required: true },
+        reader: { type: Types.ObjectId, required: true },
+        deliveredAt: { type: Date, default: null },
+        readAt: { type: Date, default: null },
+      },
+    ],
+    default: [],
+  })
+  receipts: MessageReceipt[];
+
+  @Prop({ type: Date, default: null })
+  editedAt: Date | null;
+
+  // Deleted for everyone: content is cleared, the message stays as a tombstone
+  @Prop({ type: Date, default: null })
+  deletedAt: Date | null;
+
+  // Members who deleted the message for themselves only
+  @Prop({ type: [Types.ObjectId], default: [] })
+  hiddenFor: Types.ObjectId[];
+
+  // One reaction per member
+  @Prop({
+    type: [
+      {
+        _id: false,
+        reactorModel: { type: String, enum: ['User', 'Child'], required: true },
+        reactor: { type: Types.ObjectId, required: true },
+        emoji: { type: String, required: true },
+        reactedAt: { type: Date, default: Date.now },
+      },
+    ],
+    default: [],
+  })
+  reactions: MessageReaction[];
 }
 
 export const MessageSchema = SchemaFactory.createForClass(Message);
@@ -65,3 +197,5 @@ export const MessageSchema = SchemaFactory.createForClass(Message);
 // Index for efficient querying by room and timestamp
 MessageSchema.index({ room: 1, createdAt: -1 });
 
+// Index for a child's check-in history across rooms
+MessageSchema.index({ senderId: 1, type: 1, createdAt: -1 });
@@ -5,8 +5,22 @@ import { Child } from '../../child/schemas/child.schema';
 
 export type RoomDocument = Room & Document;
 
+export enum RoomType {
+  DIRECT = 'DIRECT', // one parent and the child
+  FAMILY = 'FAMILY', // the child and all of their parents
+}
+
+export interface RoomParticipant {
+  participantModel: 'User' | 'Child';
+  participant: Types.ObjectId;
+}
+
 @Schema({ timestamps: true })
 export class Room {
+  @Prop({ enum: RoomType, default: RoomType.DIRECT })
+  type: RoomType;
+
+  // Direct rooms: the parent who owns the room; family rooms: the child's main parent
   @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
   parent: Types.ObjectId;
 
@@ -37,10 +51,38 @@ export class Room {
   // Invited parents who can also access this room
   @Prop({ type: [Types.ObjectId], ref: 'User', default: [] })
   invitedParents: Types.ObjectId[];
+
+  // Everyone who can read and post in the room (access is based on this list)
+  // Direct: child, parent and invited parents; family: child, main and linked parents, invited parents
+  @Prop({
+    type: [
+      {
+        _id: false,
+        participantModel: {
+          type: String,
+          enum: ['User', 'Child'],
+          required: true,
+        },
+        participant: { type: Types.ObjectId, required: true },
+      },
+    ],
+    default: [],
+  })
+  participants: RoomParticipant[];
 }
 
 export const RoomSchema = SchemaFactory.createForClass(Room);
 
-// Create unique index to ensure one room per parent-child pair
-RoomSchema.index({ parent: 1, child: 1 }, { unique: true });
+// One direct room per parent-child pair and one family room per child
+// (replaces the old unique parent_1_child_1 index, dropped on startup)
+RoomSchema.index(
+  { parent: 1, child: 1, type: 1 },
+  { unique: true, partialFilterExpression: { type: RoomType.DIRECT } },
+);
+RoomSchema.index(
+  { child: 1, type: 1 },
+  { unique: true, partialFilterExpression: { type: RoomType.FAMILY } },
+);
 
+// Index for listing the rooms someone is a member of
+RoomSchema.index({ 'participants.participant': 1 });
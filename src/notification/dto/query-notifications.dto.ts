@@ -0,0 +1,41 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class QueryNotificationsDto {
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Only return unread notifications',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  unreadOnly?: boolean;
+
+  @ApiPropertyOptional({
+    example: 20,
+    description: 'Max notifications (default 20, max 100)',
+    default: 20,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Pagination: fetch notifications before this notification _id',
+  })
+  @IsOptional()
+  @IsMongoId()
+  beforeId?: string;
+}
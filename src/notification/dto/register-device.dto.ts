@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import {
+  DevicePlatform,
+  PushProviderName,
+} from '../schemas/device-token.schema';
+
+export class RegisterDeviceDto {
+  @ApiProperty({
+    example: 'fcm-or-apns-device-token',
+    description: 'Push token issued to the app by FCM or APNs',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(4096)
+  token: string;
+
+  @ApiProperty({ enum: DevicePlatform, example: DevicePlatform.ANDROID })
+  @IsEnum(DevicePlatform)
+  platform: DevicePlatform;
+
+  @ApiPropertyOptional({
+    enum: PushProviderName,
+    example: PushProviderName.FCM,
+    description: 'Which service issued the token (native iOS tokens are APNS)',
+    default: PushProviderName.FCM,
+  })
+  @IsOptional()
+  @IsEnum(PushProviderName)
+  provider?: PushProviderName;
+}
@@ -0,0 +1,124 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { NotificationService } from './notification.service';
+import { PushService } from './push.service';
+import { QueryNotificationsDto } from './dto/query-notifications.dto';
+import { RegisterDeviceDto } from './dto/register-device.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+
+@ApiTags('Notifications')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationController {
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly pushService: PushService,
+  ) {}
+
+  private assertObjectId(id: string, name: string) {
+    if (!/^[a-fA-F0-9]{24}$/.test(id)) {
+      throw new BadRequestException(
+        `${name} must be a 24-char hex Mongo ObjectId`,
+      );
+    }
+  }
+
+  /**
+   * List notifications of the current user (inbox)
+   */
+  @Get()
+  @ApiOperation({ summary: 'List my notifications (newest first)' })
+  @ApiResponse({ status: 200, description: 'List of notifications' })
+  async list(
+    @Query() query: QueryNotificationsDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.notificationService.listForRecipient(currentUser, query);
+  }
+
+  /**
+   * Unread badge count
+   */
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Get the number of unread notifications' })
+  @ApiResponse({
+    status: 200,
+    description: 'Unread count, e.g. { "unreadCount": 3 }',
+  })
+  async getUnreadCount(@CurrentUser() currentUser: any) {
+    return this.notificationService.getUnreadCount(currentUser);
+  }
+
+  /**
+   * Register the push token of the current device (user or child)
+   */
+  @Post('devices')
+  @ApiOperation({ summary: 'Register a device token for push notifications' })
+  @ApiResponse({ status: 201, description: 'Device registered' })
+  async registerDevice(
+    @Body() dto: RegisterDeviceDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.pushService.registerDevice(dto, currentUser);
+  }
+
+  /**
+   * Unregister a push token (e.g. on logout)
+   */
+  @Delete('devices/:token')
+  @ApiOperation({ summary: 'Unregister a device token' })
+  @ApiParam({ name: 'token', description: 'Device push token' })
+  @ApiResponse({ status: 200, description: 'Device unregistered' })
+  @ApiResponse({ status: 404, description: 'Device token not found' })
+  async unregisterDevice(
+    @Param('token') token: string,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.pushService.unregisterDevice(token, currentUser);
+  }
+
+  /**
+   * Mark all notifications as read
+   */
+  @Patch('read-all')
+  @ApiOperation({ summary: 'Mark all my notifications as read' })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of notifications marked as read',
+  })
+  async markAllRead(@CurrentUser() currentUser: any) {
+    return this.notificationService.markAllRead(currentUser);
+  }
+
+  /**
+   * Mark one notification as read
+   */
+  @Patch(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
+  @ApiResponse({ status: 200, description: 'Notification marked as read' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async markRead(@Param('id') id: string, @CurrentUser() currentUser: any) {
+    this.assertObjectId(id, 'id');
+    return this.notificationService.markRead(id, currentUser);
+  }
+}
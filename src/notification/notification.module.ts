@@ -1,18 +1,34 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { NotificationService } from './notification.service';
+import { NotificationController } from './notification.controller';
 import { EmailService } from './email.service';
 import { SmsService } from './sms.service';
+import { PushService } from './push.service';
 import { User, UserSchema } from '../user/schemas/user.schema';
+import {
+  Notification,
+  NotificationSchema,
+} from './schemas/notification.schema';
+import {
+  PendingDelivery,
+  PendingDeliverySchema,
+} from './schemas/pending-delivery.schema';
+import { DeviceToken, DeviceTokenSchema } from './schemas/device-token.schema';
+import { MessageModule } from '../message/message.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
+      { name: Notification.name, schema: NotificationSchema },
+      { name: PendingDelivery.name, schema: PendingDeliverySchema },
+      { name: DeviceToken.name, schema: DeviceTokenSchema },
     ]),
+    forwardRef(() => MessageModule),
   ],
-  providers: [NotificationService, EmailService, SmsService],
-  exports: [NotificationService, EmailService, SmsService],
+  controllers: [NotificationController],
+  providers: [NotificationService, EmailService, SmsService, PushService],
+  exports: [NotificationService, EmailService, SmsService, PushService],
 })
 export class NotificationModule {}
-
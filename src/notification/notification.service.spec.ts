@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { NotificationService } from './notification.service';
+import { EmailService } from './email.service';
+import { SmsService } from './sms.service';
+import { PushService } from './push.service';
+import { Notification } from './schemas/notification.schema';
+import { PendingDelivery } from './schemas/pending-delivery.schema';
+import { User } from '../user/schemas/user.schema';
+import { ChatGateway } from '../message/gateway/chat.gateway';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+  let emailService: any;
+
+  const parentId = new Types.ObjectId();
+  const emailOnly = { email: true, sms: false, inApp: false, push: false };
+  const parent = {
+    _id: parentId,
+    email: 'sara@example.com',
+    phoneNumber: null,
+    notificationPreferences: { checkIn: emailOnly },
+  };
+  const child: any = {
+    _id: new Types.ObjectId(),
+    firstName: 'Alice',
+    lastName: '<b>B</b>',
+  };
+
+  beforeEach(async () => {
+    emailService = { send: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        {
+          provide: EmailService,
+          useValue: emailService,
+        },
+        {
+          provide: SmsService,
+          useValue: { send: jest.fn() },
+        },
+        {
+          provide: PushService,
+          useValue: { sendToOwner: jest.fn() },
+        },
+        {
+          provide: getModelToken(User.name),
+          useValue: {
+            findById: jest.fn(() => ({
+              exec: jest.fn().mockResolvedValue(parent),
+            })),
+          },
+        },
+        {
+          provide: getModelToken(Notification.name),
+          useValue: {},
+        },
+        {
+          provide: getModelToken(PendingDelivery.name),
+          useValue: {},
+        },
+        {
+          provide: ChatGateway,
+          useValue: { sendMessageToUser: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationService>(NotificationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('escapes the place label and child name in the check-in email', async () => {
+    await service.sendCheckInAlert(parentId.toString(), {
+      child,
+      placeLabel: '<a href="https://evil.example">School</a>',
+      location: null,
+      roomId: new Types.ObjectId().toString(),
+      messageId: new Types.ObjectId().toString(),
+    });
+
+    const [, , html] = emailService.send.mock.calls[0];
+    expect(html).not.toContain('<a href="https://evil.example">');
+    expect(html).toContain(
+      '&lt;a href=&quot;https://evil.example&quot;&gt;School&lt;/a&gt;',
+    );
+    expect(html).toContain('&lt;b&gt;B&lt;/b&gt;');
+  });
+});
@@ -1,72 +1,926 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  Inject,
+  forwardRef,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { EmailService } from './email.service';
 import { SmsService } from './sms.service';
-import { User, UserDocument } from '../user/schemas/user.schema';
+import { PushService } from './push.service';
+import {
+  Notification,
+  NotificationDocument,
+  NotificationType,
+} from './schemas/notification.schema';
+import {
+  PendingDelivery,
+  PendingDeliveryDocument,
+  DeliveryChannel,
+} from './schemas/pending-delivery.schema';
+import { QueryNotificationsDto } from './dto/query-notifications.dto';
+import {
+  User,
+  UserDocument,
+  AlertType,
+  QuietHours,
+} from '../user/schemas/user.schema';
 import { Child } from '../child/schemas/child.schema';
-import { DangerZone } from '../danger-zone/schemas/danger-zone.schema';
+import {
+  DangerZone,
+  DangerZoneShape,
+  ZoneKind,
+} from '../danger-zone/schemas/danger-zone.schema';
 import { DangerZoneEventType } from '../danger-zone/schemas/danger-zone-event.schema';
+import { SosIncident } from '../sos/schemas/sos-incident.schema';
+import { ArrivalExpectation } from '../arrival/schemas/arrival-expectation.schema';
+import { Call } from '../message/schemas/call.schema';
+import { Message, MessageType } from '../message/schemas/message.schema';
+import { ChatGateway } from '../message/gateway/chat.gateway';
 
 export interface DangerZoneNotificationData {
   child: Child;
   dangerZone: DangerZone;
   eventType: DangerZoneEventType;
   location: { lat: number; lng: number };
+  occurredAt?: Date; // defaults to now; earlier for fixes replayed after the device was offline
 }
 
+export interface SosNotificationData {
+  child: Child;
+  incident: SosIncident;
+}
+
+export interface LowBatteryNotificationData {
+  child: Child;
+  batteryLevel: number;
+}
+
+export interface DeviceSilentNotificationData {
+  child: Child;
+  lastSeenAt: Date;
+}
+
+export interface CheckInNotificationData {
+  child: Child;
+  placeLabel: string | null;
+  location: { lat: number; lng: number } | null;
+  roomId: string;
+  messageId: string;
+}
+
+export interface MissedArrivalNotificationData {
+  child: Child;
+  expectation: ArrivalExpectation;
+  targetLabel: string;
+}
+
+export interface MissedCallNotificationData {
+  child: Child; // child of the room the call was placed in
+  caller: { firstName: string | null; lastName: string | null };
+  call: Call;
+  roomId: string;
+}
+
+export interface NewMessageNotificationData {
+  child: Child; // child of the room the message was sent in
+  sender: { firstName: string | null; lastName: string | null };
+  message: Message;
+  roomId: string;
+}
+
+export interface InAppNotificationData {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+}
+
+interface ExternalDelivery {
+  subject: string;
+  text: string; // SMS and push body
+  html: string | null; // email body
+  data: Record<string, string>; // push payload
+}
+
+interface ParentAlert {
+  alertType: AlertType;
+  critical: boolean; // critical alerts ignore quiet hours
+  subject: string;
+  text: string;
+  html: string;
+  inApp: InAppNotificationData;
+}
+
+// How often deferred deliveries are checked against quiet hours
+const QUIET_HOURS_FLUSH_INTERVAL_MS = 60 * 1000;
+
 @Injectable()
-export class NotificationService {
+export class NotificationService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(NotificationService.name);
+  private flushTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private readonly emailService: EmailService,
     private readonly smsService: SmsService,
+    private readonly pushService: PushService,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Notification.name)
+    private notificationModel: Model<NotificationDocument>,
+    @InjectModel(PendingDelivery.name)
+    private pendingDeliveryModel: Model<PendingDeliveryDocument>,
+    @Inject(forwardRef(() => ChatGateway))
+    private readonly chatGateway: ChatGateway,
   ) {}
 
+  onModuleInit() {
+    this.flushTimer = setInterval(() => {
+      this.flushPendingDeliveries().catch((error) => {
+        this.logger.error('Failed to flush deferred notifications:', error);
+      });
+    }, QUIET_HOURS_FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Persist a notification in the recipient's inbox and push it live to their sockets
+   */
+  async createInAppNotification(
+    recipientId: string,
+    notification: InAppNotificationData,
+    recipientModel: 'User' | 'Child' = 'User',
+  ): Promise<Notification> {
+    const saved = await this.notificationModel.create({
+      recipientModel,
+      recipient: new Types.ObjectId(recipientId),
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data ?? {},
+      readAt: null,
+    });
+
+    const payload = saved.toObject();
+    this.chatGateway.sendMessageToUser(recipientId, 'notification', payload);
+
+    return payload;
+  }
+
   /**
    * Send danger zone alert to parent
    */
-  async sendDangerZoneAlert(parentId: string, data: DangerZoneNotificationData): Promise<void> {
+  async sendDangerZoneAlert(
+    parentId: string,
+    data: DangerZoneNotificationData,
+  ): Promise<void> {
     const parent = await this.userModel.findById(parentId).exec();
-    
+
     if (!parent) {
-      this.logger.warn(`Parent ${parentId} not found for danger zone notification`);
+      this.logger.warn(
+        `Parent ${parentId} not found for danger zone notification`,
+      );
       return;
     }
 
     const { child, dangerZone, eventType, location } = data;
-    const action = eventType === DangerZoneEventType.ENTER ? 'entered' : 'exited';
-    
-    const subject = `⚠️ Alert: ${child.firstName} ${action} danger zone "${dangerZone.name}"`;
-    const message = this.buildDangerZoneMessage(child, dangerZone, eventType, location);
+    const occurredAt = data.occurredAt ?? new Date();
+    const { action, zoneLabel, isAlarming } = this.describeZoneEvent(
+      dangerZone,
+      eventType,
+    );
+
+    const subject = `⚠️ Alert: ${child.firstName} ${action} ${zoneLabel} "${dangerZone.name}"`;
+    const message = this.buildDangerZoneMessage(
+      child,
+      dangerZone,
+      eventType,
+      location,
+      occurredAt,
+    );
+
+    await this.deliverToParent(parent, {
+      alertType: AlertType.DANGER_ZONE,
+      // Arriving at a safe zone or leaving a danger zone can wait for quiet hours to end
+      critical: isAlarming,
+      subject,
+      text: message,
+      html: this.buildDangerZoneEmailHtml(
+        child,
+        dangerZone,
+        eventType,
+        location,
+        occurredAt,
+      ),
+      inApp: {
+        type: NotificationType.DANGER_ZONE,
+        title: subject,
+        body: message,
+        data: {
+          childId: (child as any)._id?.toString(),
+          dangerZoneId: (dangerZone as any)._id?.toString(),
+          zoneKind: dangerZone.kind,
+          eventType,
+          location,
+          occurredAt,
+        },
+      },
+    });
+  }
+
+  /**
+   * Send SOS alert to parent (always immediate, channels from preferences)
+   */
+  async sendSosAlert(
+    parentId: string,
+    data: SosNotificationData,
+  ): Promise<void> {
+    const parent = await this.userModel.findById(parentId).exec();
+
+    if (!parent) {
+      this.logger.warn(`Parent ${parentId} not found for SOS notification`);
+      return;
+    }
+
+    const { child } = data;
+    const subject = `🆘 SOS: ${child.firstName} needs help`;
+    const message = this.buildSosMessage(data);
+
+    await this.deliverToParent(parent, {
+      alertType: AlertType.SOS,
+      critical: true,
+      subject,
+      text: message,
+      html: this.buildSosEmailHtml(data),
+      inApp: {
+        type: NotificationType.SOS,
+        title: subject,
+        body: message,
+        data: {
+          childId: (child as any)._id?.toString(),
+          incidentId: (data.incident as any)._id?.toString(),
+          location: data.incident.location,
+        },
+      },
+    });
+  }
+
+  /**
+   * Send low battery alert to parent (deferred during quiet hours)
+   */
+  async sendLowBatteryAlert(
+    parentId: string,
+    data: LowBatteryNotificationData,
+  ): Promise<void> {
+    const parent = await this.userModel.findById(parentId).exec();
+
+    if (!parent) {
+      this.logger.warn(
+        `Parent ${parentId} not found for low battery notification`,
+      );
+      return;
+    }
+
+    const { child, batteryLevel } = data;
+    const subject = `🔋 ${child.firstName}'s device battery is low (${batteryLevel}%)`;
+    const message = `WELDIWIN: ${child.firstName} ${child.lastName}'s device battery is at ${batteryLevel}%. Location updates will stop if it runs out.`;
+
+    await this.deliverToParent(parent, {
+      alertType: AlertType.BATTERY,
+      critical: false,
+      subject,
+      text: message,
+      html: this.buildNoticeEmailHtml('🔋 Low Battery', child, message),
+      inApp: {
+        type: NotificationType.LOW_BATTERY,
+        title: subject,
+        body: message,
+        data: {
+          childId: (child as any)._id?.toString(),
+          batteryLevel,
+        },
+      },
+    });
+  }
+
+  /**
+   * Send alert to parent when the child's device has stopped reporting (deferred during quiet hours)
+   */
+  async sendDeviceSilentAlert(
+    parentId: string,
+    data: DeviceSilentNotificationData,
+  ): Promise<void> {
+    const parent = await this.userModel.findById(parentId).exec();
+
+    if (!parent) {
+      this.logger.warn(
+        `Parent ${parentId} not found for silent device notification`,
+      );
+      return;
+    }
+
+    const { child, lastSeenAt } = data;
+    const subject = `📵 ${child.firstName}'s device is not responding`;
+    const message = `WELDIWIN: ${child.firstName} ${child.lastName}'s device has not reported since ${lastSeenAt.toLocaleString()}. It may be off, out of battery or without network.`;
+
+    await this.deliverToParent(parent, {
+      alertType: AlertType.DEVICE_SILENT,
+      critical: false,
+      subject,
+      text: message,
+      html: this.buildNoticeEmailHtml(
+        '📵 Device Not Responding',
+        child,
+        message,
+      ),
+      inApp: {
+        type: NotificationType.DEVICE_SILENT,
+        title: subject,
+        body: message,
+        data: {
+          childId: (child as any)._id?.toString(),
+          lastSeenAt,
+        },
+      },
+    });
+  }
+
+  /**
+   * Let a parent know their child checked in (deferred during quiet hours)
+   */
+  async sendCheckInAlert(
+    parentId: string,
+    data: CheckInNotificationData,
+  ): Promise<void> {
+    const parent = await this.userModel.findById(parentId).exec();
+
+    if (!parent) {
+      this.logger.warn(
+        `Parent ${parentId} not found for check-in notification`,
+      );
+      return;
+    }
+
+    const { child, placeLabel, location } = data;
+    const subject = placeLabel
+      ? `📍 ${child.firstName} arrived at ${placeLabel}`
+      : `📍 ${child.firstName} checked in`;
+    const mapLink = location
+      ? ` https://www.google.com/maps?q=${location.lat},${location.lng}`
+      : '';
+    const message = `WELDIWIN: ${subject.replace('📍 ', '')} at ${new Date().toLocaleString()}.${mapLink}`;
+
+    await this.deliverToParent(parent, {
+      alertType: AlertType.CHECK_IN,
+      critical: false,
+      subject,
+      text: message,
+      html: this.buildNoticeEmailHtml(subject, child, message),
+      inApp: {
+        type: NotificationType.CHECK_IN,
+        title: subject,
+        body: message,
+        data: {
+          childId: (child as any)._id?.toString(),
+          roomId: data.roomId,
+          messageId: data.messageId,
+          placeLabel,
+          location,
+        },
+      },
+    });
+  }
+
+  /**
+   * Alert a parent that their child has not reached an expected place by the deadline (always immediate)
+   */
+  async sendMissedArrivalAlert(
+    parentId: string,
+    data: MissedArrivalNotificationData,
+  ): Promise<void> {
+    const parent = await this.userModel.findById(parentId).exec();
+
+    if (!parent) {
+      this.logger.warn(
+        `Parent ${parentId} not found for missed arrival notification`,
+      );
+      return;
+    }
+
+    const { child, expectation, targetLabel } = data;
+    const deadline = new Date(expectation.deadline).toLocaleString();
+    const subject = `⏰ ${child.firstName} has not arrived at ${targetLabel}`;
+    const lastKnown =
+      child.location?.lat != null && child.location?.lng != null
+        ? ` Last known location: https://www.google.com/maps?q=${child.location.lat},${child.location.lng}`
+        : ' Location unknown.';
+    const message = `WELDIWIN: ${child.firstName} ${child.lastName} was expected at ${targetLabel} by ${deadline} and has not arrived.${lastKnown}`;
+
+    await this.deliverToParent(parent, {
+      alertType: AlertType.MISSED_ARRIVAL,
+      critical: true,
+      subject,
+      text: message,
+      html: this.buildNoticeEmailHtml('⏰ Missed Arrival', child, message),
+      inApp: {
+        type: NotificationType.MISSED_ARRIVAL,
+        title: subject,
+        body: message,
+        data: {
+          childId: (child as any)._id?.toString(),
+          arrivalExpectationId: (expectation as any)._id?.toString(),
+          targetLabel,
+          deadline: expectation.deadline,
+          location: child.location ?? null,
+        },
+      },
+    });
+  }
 
-    // Send email notification
-    if (parent.email) {
+  /**
+   * Tell the callee of an unanswered call who called, with a call-back deep link
+   * Parents get it on their missedCall channels, children in-app and by push
+   */
+  async sendMissedCallAlert(
+    recipientId: string,
+    recipientModel: 'User' | 'Child',
+    data: MissedCallNotificationData,
+  ): Promise<void> {
+    const { child, caller, call, roomId } = data;
+    const callerName =
+      [caller.firstName, caller.lastName].filter(Boolean).join(' ') ||
+      'Someone';
+    const callerId = call.caller.toString();
+    const calledAt = new Date(
+      (call as any).createdAt ?? Date.now(),
+    ).toLocaleString();
+    const subject = `📞 Missed call from ${callerName}`;
+    const message = `WELDIWIN: You missed a call from ${callerName} at ${calledAt}.`;
+    const inApp: InAppNotificationData = {
+      type: NotificationType.MISSED_CALL,
+      title: subject,
+      body: message,
+      data: {
+        callId: (call as any)._id?.toString(),
+        roomId,
+        callerId,
+        callerModel: call.callerModel,
+        action: 'CALL_BACK',
+        deepLink: `weldiwin://rooms/${roomId}/call?targetId=${callerId}`,
+      },
+    };
+
+    if (recipientModel === 'Child') {
       try {
-        const htmlMessage = this.buildDangerZoneEmailHtml(child, dangerZone, eventType, location);
-        await this.emailService.send(parent.email, subject, htmlMessage);
-        this.logger.log(`Email notification sent to ${parent.email} for ${child.firstName}`);
+        await this.createInAppNotification(recipientId, inApp, 'Child');
       } catch (error) {
-        this.logger.error(`Failed to send email to ${parent.email}:`, error);
+        this.logger.error(
+          `Failed to store in-app notification for child ${recipientId}:`,
+          error,
+        );
       }
+      try {
+        await this.pushService.sendToOwner(recipientId, {
+          title: subject,
+          body: message,
+          data: this.toPushData(inApp),
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to send push to child ${recipientId}:`,
+          error,
+        );
+      }
+      return;
     }
 
-    // Send SMS notification if phone number is available
-    if (parent.phoneNumber) {
+    const parent = await this.userModel.findById(recipientId).exec();
+    if (!parent) {
+      this.logger.warn(
+        `Parent ${recipientId} not found for missed call notification`,
+      );
+      return;
+    }
+
+    await this.deliverToParent(parent, {
+      alertType: AlertType.MISSED_CALL,
+      critical: false,
+      subject,
+      text: message,
+      html: this.buildNoticeEmailHtml('📞 Missed Call', child, message),
+      inApp,
+    });
+  }
+
+  /**
+   * Tell a parent who is not connected about a new chat message (deferred during quiet hours)
+   */
+  async sendNewMessageAlert(
+    parentId: string,
+    data: NewMessageNotificationData,
+  ): Promise<void> {
+    const parent = await this.userModel.findById(parentId).exec();
+
+    if (!parent) {
+      this.logger.warn(
+        `Parent ${parentId} not found for new message notification`,
+      );
+      return;
+    }
+
+    const { child, sender, message, roomId } = data;
+    const senderName =
+      [sender.firstName, sender.lastName].filter(Boolean).join(' ') ||
+      'Someone';
+    const previews: Partial<Record<MessageType, string>> = {
+      [MessageType.AUDIO]: '[Audio]',
+      [MessageType.IMAGE]: '[Photo]',
+      [MessageType.VIDEO]: '[Video]',
+      [MessageType.FILE]: '[File]',
+    };
+    const preview = message.text
+      ? message.text.slice(0, 100)
+      : (previews[message.type] ?? '');
+    const subject = `💬 New message from ${senderName}`;
+    const text = `WELDIWIN: ${senderName}: ${preview}`;
+
+    await this.deliverToParent(parent, {
+      alertType: AlertType.NEW_MESSAGE,
+      critical: false,
+      subject,
+      text,
+      html: this.buildNoticeEmailHtml('💬 New Message', child, text),
+      inApp: {
+        type: NotificationType.NEW_MESSAGE,
+        title: subject,
+        body: preview,
+        data: {
+          roomId,
+          messageId: (message as any)._id?.toString(),
+          senderId: message.senderId.toString(),
+          senderModel: message.senderModel,
+          deepLink: `weldiwin://rooms/${roomId}`,
+        },
+      },
+    });
+  }
+
+  /**
+   * Deliver an alert to a parent on the channels they enabled for its type
+   * Non-critical email/SMS/push are deferred while the parent is in quiet hours
+   */
+  private async deliverToParent(
+    parent: UserDocument,
+    alert: ParentAlert,
+  ): Promise<void> {
+    const parentId = (parent._id as any).toString();
+    const preferences = parent.notificationPreferences;
+    const channels = preferences?.[alert.alertType] ?? {
+      email: true,
+      sms: true,
+      inApp: true,
+      push: true,
+    };
+
+    if (channels.inApp) {
       try {
-        await this.smsService.send(parent.phoneNumber, message);
-        this.logger.log(`SMS notification sent to ${parent.phoneNumber} for ${child.firstName}`);
+        await this.createInAppNotification(parentId, alert.inApp);
       } catch (error) {
-        this.logger.error(`Failed to send SMS to ${parent.phoneNumber}:`, error);
+        this.logger.error(
+          `Failed to store in-app notification for parent ${parentId}:`,
+          error,
+        );
+      }
+    }
+
+    const external: DeliveryChannel[] = [];
+    if (channels.email && parent.email) {
+      external.push(DeliveryChannel.EMAIL);
+    }
+    if (channels.sms && parent.phoneNumber) {
+      external.push(DeliveryChannel.SMS);
+    }
+    if (channels.push) {
+      external.push(DeliveryChannel.PUSH);
+    }
+
+    if (external.length === 0) {
+      this.logger.log(
+        `No external channel enabled for parent ${parentId} (${alert.alertType}), in-app only`,
+      );
+      return;
+    }
+
+    const delivery: ExternalDelivery = {
+      subject: alert.subject,
+      text: alert.text,
+      html: alert.html,
+      data: this.toPushData(alert.inApp),
+    };
+
+    if (!alert.critical && this.isInQuietHours(preferences?.quietHours)) {
+      await this.pendingDeliveryModel.insertMany(
+        external.map((channel) => ({
+          recipient: parent._id,
+          channel,
+          ...delivery,
+        })),
+      );
+      this.logger.log(
+        `Quiet hours for parent ${parentId}: deferred ${external.join('/')} for "${alert.subject}"`,
+      );
+      return;
+    }
+
+    for (const channel of external) {
+      await this.sendOnChannel(parent, channel, delivery);
+    }
+  }
+
+  /**
+   * Push data must be a flat string map
+   */
+  private toPushData(inApp: InAppNotificationData): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries({ type: inApp.type, ...(inApp.data ?? {}) })
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => [
+          key,
+          typeof value === 'string' ? value : JSON.stringify(value),
+        ]),
+    );
+  }
+
+  /**
+   * Send one email, SMS or push to a parent, errors are logged and swallowed
+   */
+  private async sendOnChannel(
+    parent: UserDocument,
+    channel: DeliveryChannel,
+    delivery: ExternalDelivery,
+  ): Promise<void> {
+    try {
+      if (channel === DeliveryChannel.EMAIL) {
+        await this.emailService.send(
+          parent.email,
+          delivery.subject,
+          delivery.html ?? delivery.text,
+        );
+        this.logger.log(`Email notification sent to ${parent.email}`);
+      } else if (channel === DeliveryChannel.SMS) {
+        await this.smsService.send(parent.phoneNumber, delivery.text);
+        this.logger.log(`SMS notification sent to ${parent.phoneNumber}`);
+      } else {
+        await this.pushService.sendToOwner((parent._id as any).toString(), {
+          title: delivery.subject,
+          body: delivery.text,
+          data: delivery.data,
+        });
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send ${channel} to parent ${(parent._id as any).toString()}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Check whether quiet hours are active at a given time
+   * Same window rules as zone schedules: end before start spans midnight, start === end is all day
+   */
+  private isInQuietHours(
+    quietHours: QuietHours | undefined,
+    at: Date = new Date(),
+  ): boolean {
+    if (!quietHours?.enabled) {
+      return false;
+    }
+
+    let minutes = at.getUTCHours() * 60 + at.getUTCMinutes();
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: quietHours.timezone || 'UTC',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(at);
+      const get = (type: string) =>
+        Number(parts.find((p) => p.type === type)?.value ?? 0);
+      minutes = get('hour') * 60 + get('minute');
+    } catch {
+      // Unknown timezone: keep UTC
+    }
+
+    const toMinutes = (time: string) => {
+      const [h, m] = time.split(':').map(Number);
+      return h * 60 + m;
+    };
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+
+    if (start === end) {
+      return true;
+    }
+    if (start < end) {
+      return minutes >= start && minutes < end;
+    }
+    return minutes >= start || minutes < end;
+  }
+
+  /**
+   * Send deferred email/SMS/push of every parent whose quiet hours are over
+   */
+  async flushPendingDeliveries(): Promise<void> {
+    const recipientIds: Types.ObjectId[] =
+      await this.pendingDeliveryModel.distinct('recipient');
+
+    for (const recipientId of recipientIds) {
+      const parent = await this.userModel.findById(recipientId).exec();
+      if (!parent) {
+        await this.pendingDeliveryModel.deleteMany({ recipient: recipientId });
+        continue;
+      }
+      if (this.isInQuietHours(parent.notificationPreferences?.quietHours)) {
+        continue;
+      }
+
+      const deliveries = await this.pendingDeliveryModel
+        .find({ recipient: recipientId })
+        .sort({ createdAt: 1 })
+        .exec();
+
+      for (const delivery of deliveries) {
+        const stillReachable =
+          delivery.channel === DeliveryChannel.EMAIL
+            ? parent.email
+            : delivery.channel === DeliveryChannel.SMS
+              ? parent.phoneNumber
+              : true;
+        if (stillReachable) {
+          await this.sendOnChannel(parent, delivery.channel, delivery);
+        }
+        await delivery.deleteOne();
+      }
+
+      if (deliveries.length > 0) {
+        this.logger.log(
+          `Flushed ${deliveries.length} deferred notification(s) for parent ${recipientId.toString()}`,
+        );
       }
     }
+  }
+
+  /**
+   * Build plain text message for SOS alert
+   */
+  private buildSosMessage(data: SosNotificationData): string {
+    const { child, incident } = data;
+    const timestamp = new Date().toLocaleString();
+    const location = incident.location
+      ? ` Location: https://www.google.com/maps?q=${incident.location.lat},${incident.location.lng}`
+      : ' Location unknown.';
+    const note = incident.message ? ` Message: "${incident.message}".` : '';
+
+    return `WELDIWIN SOS: Your child ${child.firstName} ${child.lastName} pressed the SOS button at ${timestamp}.${note}${location}`;
+  }
+
+  /**
+   * Build HTML email for SOS alert
+   */
+  private buildSosEmailHtml(data: SosNotificationData): string {
+    const { child, incident } = data;
+    const timestamp = new Date().toLocaleString();
+    const locationHtml = incident.location
+      ? `<p><strong>Coordinates:</strong> ${incident.location.lat.toFixed(6)}, ${incident.location.lng.toFixed(6)}</p>
+      <div style="text-align: center; margin-top: 15px;">
+        <a href="https://www.google.com/maps?q=${incident.location.lat},${incident.location.lng}" style="display: inline-block; background-color: #dc3545; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">View on Google Maps</a>
+      </div>`
+      : `<p>Location is not available yet.</p>`;
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background-color: #dc3545; color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+    <h1 style="margin: 0; font-size: 28px;">🆘 SOS Alert</h1>
+  </div>
+  
+  <div style="background-color: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+    <div style="background-color: white; padding: 20px; border-radius: 8px; margin-bottom: 15px;">
+      <h3 style="color: #dc3545; margin-top: 0; border-bottom: 2px solid #dc3545; padding-bottom: 10px;">Details</h3>
+      <p><strong>Child:</strong> ${this.escapeHtml(child.firstName)} ${this.escapeHtml(child.lastName)}</p>
+      ${incident.message ? `<p><strong>Message:</strong> ${this.escapeHtml(incident.message)}</p>` : ''}
+      <p><strong>Time:</strong> ${timestamp}</p>
+    </div>
+
+    <div style="background-color: white; padding: 20px; border-radius: 8px; margin-bottom: 15px;">
+      <h3 style="color: #dc3545; margin-top: 0; border-bottom: 2px solid #dc3545; padding-bottom: 10px;">Location</h3>
+      ${locationHtml}
+    </div>
+
+    <div style="background-color: #fff3cd; border-left: 4px solid #ffc107; padding: 15px; border-radius: 5px; margin-top: 20px;">
+      <p style="margin: 0; font-size: 14px; color: #856404;">
+        <strong>Note:</strong> Open the Weldiwin app to acknowledge this alert so other parents know you are on it.
+      </p>
+    </div>
+  </div>
+
+  <div style="text-align: center; margin-top: 20px; color: #6c757d; font-size: 12px;">
+    <p>© ${new Date().getFullYear()} Weldiwin. All rights reserved.</p>
+    <p>This is an automated message. Please do not reply to this email.</p>
+  </div>
+</body>
+</html>
+    `.trim();
+  }
+
+  /**
+   * Escape a value for an email's HTML (names, labels and messages come from users)
+   */
+  private escapeHtml(value: string | null | undefined): string {
+    return (value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Build HTML email for short notices (low battery, silent device, check-in, missed call, new message)
+   * Every value is escaped: titles and messages carry names and chat text
+   */
+  private buildNoticeEmailHtml(
+    title: string,
+    child: Child,
+    message: string,
+  ): string {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background-color: #ffc107; color: #333; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+    <h1 style="margin: 0; font-size: 28px;">${this.escapeHtml(title)}</h1>
+  </div>
+
+  <div style="background-color: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+    <div style="background-color: white; padding: 20px; border-radius: 8px;">
+      <p><strong>Child:</strong> ${this.escapeHtml(child.firstName)} ${this.escapeHtml(child.lastName)}</p>
+      <p>${this.escapeHtml(message)}</p>
+    </div>
+  </div>
 
-    // If no contact methods available, just log
-    if (!parent.email && !parent.phoneNumber) {
-      this.logger.warn(`No email or phone for parent ${parentId}, notification not sent`);
+  <div style="text-align: center; margin-top: 20px; color: #6c757d; font-size: 12px;">
+    <p>© ${new Date().getFullYear()} Weldiwin. All rights reserved.</p>
+    <p>This is an automated message. Please do not reply to this email.</p>
+  </div>
+</body>
+</html>
+    `.trim();
+  }
+
+  /**
+   * Describe a zone event depending on the zone kind
+   * For SAFE zones leaving is the alarming case, for DANGER zones entering is
+   */
+  private describeZoneEvent(
+    dangerZone: DangerZone,
+    eventType: DangerZoneEventType,
+  ): { action: string; zoneLabel: string; isAlarming: boolean } {
+    const isEnter = eventType === DangerZoneEventType.ENTER;
+
+    if (dangerZone.kind === ZoneKind.SAFE) {
+      return {
+        action: isEnter ? 'arrived at' : 'left',
+        zoneLabel: 'safe zone',
+        isAlarming: !isEnter,
+      };
     }
+
+    return {
+      action: isEnter ? 'entered' : 'exited',
+      zoneLabel: 'danger zone',
+      isAlarming: isEnter,
+    };
   }
 
   /**
@@ -76,12 +930,13 @@ export class NotificationService {
     child: Child,
     dangerZone: DangerZone,
     eventType: DangerZoneEventType,
-    location: { lat: number; lng: number }
+    location: { lat: number; lng: number },
+    occurredAt: Date,
   ): string {
-    const action = eventType === DangerZoneEventType.ENTER ? 'entered' : 'exited';
-    const timestamp = new Date().toLocaleString();
-    
-    return `WELDIWIN ALERT: Your child ${child.firstName} ${child.lastName} has ${action} the danger zone "${dangerZone.name}" at ${timestamp}. Location: ${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}`;
+    const { action, zoneLabel } = this.describeZoneEvent(dangerZone, eventType);
+    const timestamp = occurredAt.toLocaleString();
+
+    return `WELDIWIN ALERT: Your child ${child.firstName} ${child.lastName} has ${action} the ${zoneLabel} "${dangerZone.name}" at ${timestamp}. Location: ${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}`;
   }
 
   /**
@@ -91,12 +946,22 @@ export class NotificationService {
     child: Child,
     dangerZone: DangerZone,
     eventType: DangerZoneEventType,
-    location: { lat: number; lng: number }
+    location: { lat: number; lng: number },
+    occurredAt: Date,
   ): string {
-    const action = eventType === DangerZoneEventType.ENTER ? 'entered' : 'exited';
-    const actionColor = eventType === DangerZoneEventType.ENTER ? '#dc3545' : '#28a745';
-    const timestamp = new Date().toLocaleString();
+    const { action, zoneLabel, isAlarming } = this.describeZoneEvent(
+      dangerZone,
+      eventType,
+    );
+    const zoneTitle = zoneLabel.replace(/\b\w/g, (c) => c.toUpperCase());
+    const actionColor = isAlarming ? '#dc3545' : '#28a745';
+    const timestamp = occurredAt.toLocaleString();
     const mapsUrl = `https://www.google.com/maps?q=${location.lat},${location.lng}`;
+    const zoneGeometryHtml =
+      dangerZone.shape === DangerZoneShape.POLYGON
+        ? `<p><strong>Zone Area:</strong> Polygon with ${dangerZone.polygon?.length ?? 0} points</p>`
+        : `<p><strong>Zone Center:</strong> ${dangerZone.center.lat.toFixed(6)}, ${dangerZone.center.lng.toFixed(6)}</p>
+      <p><strong>Zone Radius:</strong> ${dangerZone.radiusMeters}m</p>`;
 
     return `
 <!DOCTYPE html>
@@ -112,13 +977,13 @@ export class NotificationService {
   
   <div style="background-color: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
     <div style="background-color: ${actionColor}; color: white; padding: 15px; border-radius: 8px; margin-bottom: 20px; text-align: center;">
-      <h2 style="margin: 0; font-size: 22px;">Child ${action.toUpperCase()} Danger Zone</h2>
+      <h2 style="margin: 0; font-size: 22px;">Child ${action.toUpperCase()} ${zoneTitle}</h2>
     </div>
     
     <div style="background-color: white; padding: 20px; border-radius: 8px; margin-bottom: 15px;">
       <h3 style="color: #667eea; margin-top: 0; border-bottom: 2px solid #667eea; padding-bottom: 10px;">Details</h3>
       <p><strong>Child:</strong> ${child.firstName} ${child.lastName}</p>
-      <p><strong>Danger Zone:</strong> ${dangerZone.name}</p>
+      <p><strong>${zoneTitle}:</strong> ${dangerZone.name}</p>
       ${dangerZone.description ? `<p><strong>Description:</strong> ${dangerZone.description}</p>` : ''}
       <p><strong>Action:</strong> <span style="color: ${actionColor}; font-weight: bold;">${action.toUpperCase()}</span></p>
       <p><strong>Time:</strong> ${timestamp}</p>
@@ -127,8 +992,7 @@ export class NotificationService {
     <div style="background-color: white; padding: 20px; border-radius: 8px; margin-bottom: 15px;">
       <h3 style="color: #667eea; margin-top: 0; border-bottom: 2px solid #667eea; padding-bottom: 10px;">Location</h3>
       <p><strong>Coordinates:</strong> ${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}</p>
-      <p><strong>Zone Center:</strong> ${dangerZone.center.lat.toFixed(6)}, ${dangerZone.center.lng.toFixed(6)}</p>
-      <p><strong>Zone Radius:</strong> ${dangerZone.radiusMeters}m</p>
+      ${zoneGeometryHtml}
       <div style="text-align: center; margin-top: 15px;">
         <a href="${mapsUrl}" style="display: inline-block; background-color: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">View on Google Maps</a>
       </div>
@@ -175,5 +1039,67 @@ export class NotificationService {
       throw error;
     }
   }
-}
 
+  /**
+   * List notifications of the current user or child (newest first)
+   */
+  async listForRecipient(
+    currentUser: any,
+    query: QueryNotificationsDto,
+  ): Promise<Notification[]> {
+    const filter: any = { recipient: new Types.ObjectId(currentUser.id) };
+    if (query.unreadOnly) {
+      filter.readAt = null;
+    }
+    if (query.beforeId) {
+      filter._id = { $lt: new Types.ObjectId(query.beforeId) };
+    }
+
+    return this.notificationModel
+      .find(filter)
+      .sort({ _id: -1 })
+      .limit(query.limit ?? 20)
+      .lean();
+  }
+
+  /**
+   * Count unread notifications of the current user or child
+   */
+  async getUnreadCount(currentUser: any): Promise<{ unreadCount: number }> {
+    const unreadCount = await this.notificationModel.countDocuments({
+      recipient: new Types.ObjectId(currentUser.id),
+      readAt: null,
+    });
+    return { unreadCount };
+  }
+
+  /**
+   * Mark one notification as read
+   */
+  async markRead(id: string, currentUser: any): Promise<Notification> {
+    const notification = await this.notificationModel.findOne({
+      _id: new Types.ObjectId(id),
+      recipient: new Types.ObjectId(currentUser.id),
+    });
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await notification.save();
+    }
+    return notification;
+  }
+
+  /**
+   * Mark all notifications of the current user or child as read
+   */
+  async markAllRead(currentUser: any): Promise<{ updated: number }> {
+    const result = await this.notificationModel.updateMany(
+      { recipient: new Types.ObjectId(currentUser.id), readAt: null },
+      { $set: { readAt: new Date() } },
+    );
+    return { updated: result.modifiedCount };
+  }
+}
@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PushService } from './push.service';
+import {
+  DeviceToken,
+  DevicePlatform,
+  PushProviderName,
+} from './schemas/device-token.schema';
+
+describe('PushService', () => {
+  let service: PushService;
+  let deviceTokenModel: any;
+
+  beforeEach(async () => {
+    deviceTokenModel = {
+      find: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PushService,
+        {
+          provide: getModelToken(DeviceToken.name),
+          useValue: deviceTokenModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PushService>(PushService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('deletes tokens the provider reports as invalid', async () => {
+    const buildDevice = (token: string) => ({
+      token,
+      platform: DevicePlatform.ANDROID,
+      provider: PushProviderName.FCM,
+      deleteOne: jest.fn(),
+    });
+    const valid = buildDevice('valid-token');
+    const stale = buildDevice('stale-token');
+    deviceTokenModel.find.mockReturnValue({
+      exec: jest.fn().mockResolvedValue([valid, stale]),
+    });
+    (service as any).providers.set(PushProviderName.FCM, {
+      name: 'fake',
+      send: jest.fn((token: string) =>
+        Promise.resolve({ invalidToken: token === 'stale-token' }),
+      ),
+    });
+
+    await service.sendToOwner(new Types.ObjectId().toString(), {
+      title: 'Hi',
+      body: 'There',
+    });
+
+    expect(valid.deleteOne).not.toHaveBeenCalled();
+    expect(stale.deleteOne).toHaveBeenCalled();
+  });
+});
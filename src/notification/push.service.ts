@@ -0,0 +1,129 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  DeviceToken,
+  DeviceTokenDocument,
+  PushProviderName,
+} from './schemas/device-token.schema';
+import { RegisterDeviceDto } from './dto/register-device.dto';
+import { PushMessage, PushProvider } from './push/push-provider.interface';
+import { FcmPushProvider } from './push/fcm-push.provider';
+import { ApnsPushProvider } from './push/apns-push.provider';
+import { StubPushProvider } from './push/stub-push.provider';
+
+@Injectable()
+export class PushService {
+  private readonly logger = new Logger(PushService.name);
+  private readonly providers = new Map<PushProviderName, PushProvider>();
+
+  constructor(
+    @InjectModel(DeviceToken.name)
+    private deviceTokenModel: Model<DeviceTokenDocument>,
+  ) {}
+
+  private ensureProvider(name: PushProviderName): PushProvider {
+    const cached = this.providers.get(name);
+    if (cached) return cached;
+
+    let provider: PushProvider | null = null;
+    if (name === PushProviderName.FCM) {
+      const projectId = process.env.FCM_PROJECT_ID;
+      const clientEmail = process.env.FCM_CLIENT_EMAIL;
+      const privateKey = process.env.FCM_PRIVATE_KEY?.replace(/\\n/g, '\n');
+      if (projectId && clientEmail && privateKey) {
+        provider = new FcmPushProvider(projectId, clientEmail, privateKey);
+      }
+    } else {
+      const keyId = process.env.APNS_KEY_ID;
+      const teamId = process.env.APNS_TEAM_ID;
+      const privateKey = process.env.APNS_PRIVATE_KEY?.replace(/\\n/g, '\n');
+      const bundleId = process.env.APNS_BUNDLE_ID;
+      if (keyId && teamId && privateKey && bundleId) {
+        provider = new ApnsPushProvider(
+          keyId,
+          teamId,
+          privateKey,
+          bundleId,
+          process.env.APNS_PRODUCTION === 'true',
+        );
+      }
+    }
+
+    if (!provider) {
+      this.logger.warn(
+        `${name} is not configured; push notifications will be logged only`,
+      );
+      provider = new StubPushProvider();
+    }
+    this.providers.set(name, provider);
+    return provider;
+  }
+
+  /**
+   * Register (or move) a device token to the current user or child
+   */
+  async registerDevice(
+    dto: RegisterDeviceDto,
+    currentUser: any,
+  ): Promise<DeviceToken> {
+    return this.deviceTokenModel
+      .findOneAndUpdate(
+        { token: dto.token },
+        {
+          $set: {
+            ownerModel: currentUser.type === 'child' ? 'Child' : 'User',
+            owner: new Types.ObjectId(currentUser.id),
+            platform: dto.platform,
+            provider: dto.provider ?? PushProviderName.FCM,
+            lastSeenAt: new Date(),
+          },
+        },
+        { new: true, upsert: true, runValidators: true },
+      )
+      .lean() as Promise<DeviceToken>;
+  }
+
+  /**
+   * Remove a device token of the current user or child (e.g. on logout)
+   */
+  async unregisterDevice(token: string, currentUser: any): Promise<void> {
+    const result = await this.deviceTokenModel.deleteOne({
+      token,
+      owner: new Types.ObjectId(currentUser.id),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Device token not found');
+    }
+  }
+
+  /**
+   * Push a message to every registered device of a user or child
+   * Tokens the provider reports as invalid are deleted
+   */
+  async sendToOwner(ownerId: string, message: PushMessage): Promise<void> {
+    const devices = await this.deviceTokenModel
+      .find({ owner: new Types.ObjectId(ownerId) })
+      .exec();
+
+    for (const device of devices) {
+      try {
+        const result = await this.ensureProvider(device.provider).send(
+          device.token,
+          message,
+        );
+        if (result.invalidToken) {
+          await device.deleteOne();
+          this.logger.log(
+            `Pruned invalid ${device.provider} token of ${ownerId}`,
+          );
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to send push to ${ownerId} (${device.platform}):`,
+          error,
+        );
+      }
+    }
+  }
+}
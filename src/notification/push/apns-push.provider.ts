@@ -0,0 +1,140 @@
+import { connect, constants, ClientHttp2Session } from 'http2';
+import { createPrivateKey, sign, KeyObject } from 'crypto';
+import {
+  PushMessage,
+  PushProvider,
+  PushSendResult,
+} from './push-provider.interface';
+
+// APNs rejects provider tokens older than one hour
+const APNS_TOKEN_TTL_MS = 50 * 60 * 1000;
+// A stalled request (or a half-dead connection) must not hang the delivery
+const APNS_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Apple Push Notification service over HTTP/2 with a .p8 token key
+ */
+export class ApnsPushProvider implements PushProvider {
+  readonly name = 'apns';
+  private readonly key: KeyObject;
+  private readonly host: string;
+  private session: ClientHttp2Session | null = null;
+  private jwt: { value: string; issuedAt: number } | null = null;
+
+  constructor(
+    private readonly keyId: string,
+    private readonly teamId: string,
+    privateKey: string,
+    private readonly bundleId: string,
+    production: boolean,
+  ) {
+    this.key = createPrivateKey(privateKey);
+    this.host = production
+      ? 'https://api.push.apple.com'
+      : 'https://api.sandbox.push.apple.com';
+  }
+
+  private getProviderToken(): string {
+    if (this.jwt && Date.now() - this.jwt.issuedAt < APNS_TOKEN_TTL_MS) {
+      return this.jwt.value;
+    }
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const issuedAt = Date.now();
+    const unsigned = `${encode({ alg: 'ES256', kid: this.keyId })}.${encode({ iss: this.teamId, iat: Math.floor(issuedAt / 1000) })}`;
+    const signature = sign('sha256', Buffer.from(unsigned), {
+      key: this.key,
+      dsaEncoding: 'ieee-p1363',
+    });
+    this.jwt = {
+      value: `${unsigned}.${signature.toString('base64url')}`,
+      issuedAt,
+    };
+    return this.jwt.value;
+  }
+
+  private getSession(): ClientHttp2Session {
+    if (!this.session || this.session.closed || this.session.destroyed) {
+      this.session = connect(this.host);
+      this.session.on('error', () => this.resetSession());
+      this.session.unref();
+    }
+    return this.session;
+  }
+
+  /**
+   * Drop the current connection so the next send opens a fresh one
+   */
+  private resetSession(): void {
+    const session = this.session;
+    this.session = null;
+    if (session && !session.destroyed) {
+      session.destroy();
+    }
+  }
+
+  send(token: string, message: PushMessage): Promise<PushSendResult> {
+    const payload = JSON.stringify({
+      aps: {
+        alert: { title: message.title, body: message.body },
+        sound: 'default',
+      },
+      ...(message.data ?? {}),
+    });
+
+    return new Promise((resolve, reject) => {
+      const request = this.getSession().request({
+        ':method': 'POST',
+        ':path': `/3/device/${token}`,
+        authorization: `bearer ${this.getProviderToken()}`,
+        'apns-topic': this.bundleId,
+        'apns-push-type': 'alert',
+        'content-type': 'application/json',
+      });
+
+      let status = 0;
+      let body = '';
+      request.setEncoding('utf8');
+      request.setTimeout(APNS_REQUEST_TIMEOUT_MS, () => {
+        request.close(constants.NGHTTP2_CANCEL);
+        this.resetSession();
+        reject(
+          new Error(
+            `APNs request timed out after ${APNS_REQUEST_TIMEOUT_MS}ms`,
+          ),
+        );
+      });
+      request.on(
+        'response',
+        (headers) => (status = Number(headers[':status'])),
+      );
+      request.on('data', (chunk) => (body += chunk));
+      request.on('error', (error: Error) => {
+        this.resetSession();
+        reject(error);
+      });
+      request.on('end', () => {
+        if (status === 200) {
+          return resolve({ invalidToken: false });
+        }
+        let reason = '';
+        try {
+          reason = JSON.parse(body).reason;
+        } catch {
+          // Empty or non-JSON body
+        }
+        if (
+          status === 410 ||
+          reason === 'BadDeviceToken' ||
+          reason === 'Unregistered'
+        ) {
+          return resolve({ invalidToken: true });
+        }
+        reject(
+          new Error(`APNs responded ${status}${reason ? ` (${reason})` : ''}`),
+        );
+      });
+      request.end(payload);
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { FcmPushProvider } from './fcm-push.provider';
+
+describe('FcmPushProvider', () => {
+  let provider: FcmPushProvider;
+  let request: jest.Mock;
+
+  const message = { title: 'Alert', body: 'Alice left School' };
+  const fcmError = (status: number, details: any[]) =>
+    Object.assign(new Error('FCM error'), {
+      response: { status, data: { error: { details } } },
+    });
+
+  beforeEach(() => {
+    provider = new FcmPushProvider(
+      'weldiwin',
+      'push@weldiwin.iam.gserviceaccount.com',
+      'key',
+    );
+    request = jest.fn().mockResolvedValue({});
+    (provider as any).client.request = request;
+  });
+
+  it('sends the message to the token', async () => {
+    await expect(provider.send('token', message)).resolves.toEqual({
+      invalidToken: false,
+    });
+    expect(request.mock.calls[0][0].data.message.token).toBe('token');
+  });
+
+  it('reports unregistered tokens as invalid', async () => {
+    request.mockRejectedValue(fcmError(404, [{ errorCode: 'UNREGISTERED' }]));
+
+    await expect(provider.send('token', message)).resolves.toEqual({
+      invalidToken: true,
+    });
+  });
+
+  it('reports a token rejected as INVALID_ARGUMENT as invalid', async () => {
+    request.mockRejectedValue(
+      fcmError(400, [
+        { errorCode: 'INVALID_ARGUMENT' },
+        { fieldViolations: [{ field: 'message.token' }] },
+      ]),
+    );
+
+    await expect(provider.send('token', message)).resolves.toEqual({
+      invalidToken: true,
+    });
+  });
+
+  it('keeps the token when the payload is the INVALID_ARGUMENT', async () => {
+    request.mockRejectedValue(
+      fcmError(400, [
+        { errorCode: 'INVALID_ARGUMENT' },
+        { fieldViolations: [{ field: 'message.data' }] },
+      ]),
+    );
+
+    await expect(provider.send('token', message)).rejects.toThrow('FCM error');
+  });
+});
@@ -0,0 +1,58 @@
+import { JWT } from 'google-auth-library';
+import {
+  PushMessage,
+  PushProvider,
+  PushSendResult,
+} from './push-provider.interface';
+
+/**
+ * Firebase Cloud Messaging HTTP v1 (Android, web and iOS through Firebase)
+ */
+export class FcmPushProvider implements PushProvider {
+  readonly name = 'fcm';
+  private readonly client: JWT;
+
+  constructor(
+    private readonly projectId: string,
+    clientEmail: string,
+    privateKey: string,
+  ) {
+    this.client = new JWT({
+      email: clientEmail,
+      key: privateKey,
+      scopes: ['https://www.googleapis.com/auth/firebase.messaging'],
+    });
+  }
+
+  async send(token: string, message: PushMessage): Promise<PushSendResult> {
+    try {
+      await this.client.request({
+        url: `https://fcm.googleapis.com/v1/projects/${this.projectId}/messages:send`,
+        method: 'POST',
+        data: {
+          message: {
+            token,
+            notification: { title: message.title, body: message.body },
+            data: message.data ?? {},
+          },
+        },
+      });
+      return { invalidToken: false };
+    } catch (error: any) {
+      const status = error.response?.status;
+      const details: any[] = error.response?.data?.error?.details ?? [];
+      const errorCode = details.find((d) => d.errorCode)?.errorCode;
+      if (status === 404 || errorCode === 'UNREGISTERED') {
+        return { invalidToken: true };
+      }
+      // INVALID_ARGUMENT also covers bad payloads (e.g. oversized data): only a malformed token is dead
+      const tokenRejected = details.some((d) =>
+        d.fieldViolations?.some((v: any) => v.field === 'message.token'),
+      );
+      if (errorCode === 'INVALID_ARGUMENT' && tokenRejected) {
+        return { invalidToken: true };
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, string>; // FCM/APNs custom data must be flat strings
+}
+
+export interface PushSendResult {
+  // Provider reported the token as unregistered/invalid: it should be deleted
+  invalidToken: boolean;
+}
+
+/**
+ * A push backend (FCM, APNs, or the local stub)
+ */
+export interface PushProvider {
+  readonly name: string;
+  send(token: string, message: PushMessage): Promise<PushSendResult>;
+}
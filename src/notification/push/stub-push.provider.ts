@@ -0,0 +1,21 @@
+import { Logger } from '@nestjs/common';
+import {
+  PushMessage,
+  PushProvider,
+  PushSendResult,
+} from './push-provider.interface';
+
+/**
+ * Used when no push credentials are configured: only logs the push
+ */
+export class StubPushProvider implements PushProvider {
+  readonly name = 'stub';
+  private readonly logger = new Logger(StubPushProvider.name);
+
+  send(token: string, message: PushMessage): Promise<PushSendResult> {
+    this.logger.log(
+      `[DEV-PUSH] To: ${token} | ${message.title} | ${message.body}`,
+    );
+    return Promise.resolve({ invalidToken: false });
+  }
+}
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type DeviceTokenDocument = DeviceToken & Document;
+
+export enum DevicePlatform {
+  IOS = 'IOS',
+  ANDROID = 'ANDROID',
+  WEB = 'WEB',
+}
+
+export enum PushProviderName {
+  FCM = 'FCM',
+  APNS = 'APNS',
+}
+
+@Schema({ timestamps: true })
+export class DeviceToken {
+  // Polymorphic owner: either User (parent) or Child
+  @Prop({ required: true, enum: ['User', 'Child'], default: 'User' })
+  ownerModel: 'User' | 'Child';
+
+  @Prop({ type: Types.ObjectId, required: true })
+  owner: Types.ObjectId;
+
+  @Prop({ required: true })
+  token: string;
+
+  @Prop({ enum: DevicePlatform, required: true })
+  platform: DevicePlatform;
+
+  @Prop({ enum: PushProviderName, default: PushProviderName.FCM })
+  provider: PushProviderName;
+
+  @Prop({ type: Date, default: null })
+  lastSeenAt: Date | null;
+}
+
+export const DeviceTokenSchema = SchemaFactory.createForClass(DeviceToken);
+
+// A token belongs to one account at a time (re-registering moves it)
+DeviceTokenSchema.index({ token: 1 }, { unique: true });
+DeviceTokenSchema.index({ owner: 1 });
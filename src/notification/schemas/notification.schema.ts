@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type NotificationDocument = Notification & Document;
+
+export enum NotificationType {
+  DANGER_ZONE = 'DANGER_ZONE',
+  SOS = 'SOS',
+  LOW_BATTERY = 'LOW_BATTERY',
+  DEVICE_SILENT = 'DEVICE_SILENT',
+  CHECK_IN = 'CHECK_IN',
+  MISSED_ARRIVAL = 'MISSED_ARRIVAL',
+  MISSED_CALL = 'MISSED_CALL',
+  NEW_MESSAGE = 'NEW_MESSAGE',
+}
+
+@Schema({ timestamps: true })
+export class Notification {
+  // Polymorphic recipient: either User (parent) or Child
+  @Prop({ required: true, enum: ['User', 'Child'], default: 'User' })
+  recipientModel: 'User' | 'Child';
+
+  @Prop({ type: Types.ObjectId, required: true })
+  recipient: Types.ObjectId;
+
+  @Prop({ enum: NotificationType, required: true })
+  type: NotificationType;
+
+  @Prop({ required: true })
+  title: string;
+
+  @Prop({ required: true })
+  body: string;
+
+  // Type-specific payload (childId, dangerZoneId, incidentId, ...) for deep links
+  @Prop({ type: Object, default: {} })
+  data: Record<string, any>;
+
+  @Prop({ type: Date, default: null })
+  readAt: Date | null;
+}
+
+export const NotificationSchema = SchemaFactory.createForClass(Notification);
+
+// Indexes for inbox listing and unread counts
+NotificationSchema.index({ recipient: 1, createdAt: -1 });
+NotificationSchema.index({ recipient: 1, readAt: 1 });
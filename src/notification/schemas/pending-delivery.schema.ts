@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PendingDeliveryDocument = PendingDelivery & Document;
+
+export enum DeliveryChannel {
+  EMAIL = 'email',
+  SMS = 'sms',
+  PUSH = 'push',
+}
+
+/**
+ * External alert (email/SMS/push) held back during the recipient's quiet hours
+ */
+@Schema({ timestamps: true })
+export class PendingDelivery {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  recipient: Types.ObjectId;
+
+  @Prop({ enum: DeliveryChannel, required: true })
+  channel: DeliveryChannel;
+
+  @Prop({ required: true })
+  subject: string;
+
+  @Prop({ required: true })
+  text: string; // SMS body
+
+  @Prop({ type: String, default: null })
+  html: string | null; // email body
+
+  @Prop({ type: Object, default: {} })
+  data: Record<string, string>; // push payload
+}
+
+export const PendingDeliverySchema =
+  SchemaFactory.createForClass(PendingDelivery);
+
+// Index for flushing a recipient's deliveries in order
+PendingDeliverySchema.index({ recipient: 1, createdAt: 1 });
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ResolveSosDto {
+  @ApiPropertyOptional({
+    example: 'Picked her up at the bus stop',
+    description: 'Optional resolution note',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
@@ -0,0 +1,42 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class TriggerSosDto {
+  @ApiPropertyOptional({
+    example: 33.5731,
+    description:
+      'Fresh latitude from the device (defaults to the last known location)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat?: number;
+
+  @ApiPropertyOptional({
+    example: -7.6598,
+    description:
+      'Fresh longitude from the device (defaults to the last known location)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng?: number;
+
+  @ApiPropertyOptional({
+    example: 'I am lost',
+    description: 'Optional short message',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(280)
+  message?: string;
+}
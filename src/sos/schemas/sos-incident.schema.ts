@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SosIncidentDocument = SosIncident & Document;
+
+export enum SosStatus {
+  ACTIVE = 'ACTIVE', // triggered, nobody has reacted yet
+  ACKNOWLEDGED = 'ACKNOWLEDGED', // a parent is on it
+  RESOLVED = 'RESOLVED',
+}
+
+@Schema({ timestamps: true })
+export class SosIncident {
+  @Prop({ type: Types.ObjectId, ref: 'Child', required: true })
+  child: Types.ObjectId;
+
+  @Prop({
+    type: {
+      lat: { type: Number },
+      lng: { type: Number },
+    },
+    default: null,
+  })
+  location: { lat: number; lng: number } | null; // child's location when the SOS was (last) triggered
+
+  @Prop({ type: String, default: null })
+  message: string | null; // optional short message from the child
+
+  @Prop({ enum: SosStatus, default: SosStatus.ACTIVE })
+  status: SosStatus;
+
+  @Prop({ type: Date, default: () => new Date() })
+  lastTriggeredAt: Date; // updated when the child presses SOS again while the incident is open
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  acknowledgedBy: Types.ObjectId | null;
+
+  @Prop({ type: Date, default: null })
+  acknowledgedAt: Date | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  resolvedBy: Types.ObjectId | null;
+
+  @Prop({ type: Date, default: null })
+  resolvedAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  resolutionNote: string | null;
+}
+
+export const SosIncidentSchema = SchemaFactory.createForClass(SosIncident);
+
+// Indexes for history and open-incident lookups
+SosIncidentSchema.index({ child: 1, createdAt: -1 });
+SosIncidentSchema.index({ child: 1, status: 1 });
@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  Body,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { SosService } from './sos.service';
+import { ResolveSosDto } from './dto/resolve-sos.dto';
+import { SosStatus } from './schemas/sos-incident.schema';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/user.decorator';
+import { UserRole } from '../user/schemas/user.schema';
+
+@ApiTags('SOS')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('sos')
+export class SosController {
+  constructor(private readonly sosService: SosService) {}
+
+  @Get('child/:childId')
+  @ApiOperation({
+    summary:
+      'Get SOS history for a child (ADMIN, PARENT for their child, or CHILD themselves)',
+    description: 'Returns the last 100 SOS incidents, newest first',
+  })
+  @ApiParam({ name: 'childId', description: 'Child ID' })
+  @ApiQuery({ name: 'status', required: false, enum: SosStatus })
+  @ApiResponse({ status: 200, description: 'List of SOS incidents' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'Child not found' })
+  findForChild(
+    @Param('childId') childId: string,
+    @CurrentUser() currentUser: any,
+    @Query('status') status?: SosStatus,
+  ) {
+    if (status && !Object.values(SosStatus).includes(status)) {
+      throw new BadRequestException(
+        `status must be one of ${Object.values(SosStatus).join(', ')}`,
+      );
+    }
+    return this.sosService.findForChild(childId, currentUser, status);
+  }
+
+  @Patch(':id/acknowledge')
+  @Roles(UserRole.ADMIN, UserRole.PARENT)
+  @ApiOperation({
+    summary:
+      'Acknowledge an active SOS incident (PARENT of the child or ADMIN)',
+  })
+  @ApiParam({ name: 'id', description: 'SOS incident ID' })
+  @ApiResponse({ status: 200, description: 'Incident acknowledged' })
+  @ApiResponse({ status: 400, description: 'Incident is not active' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'SOS incident not found' })
+  acknowledge(@Param('id') id: string, @CurrentUser() currentUser: any) {
+    return this.sosService.acknowledge(id, currentUser);
+  }
+
+  @Patch(':id/resolve')
+  @Roles(UserRole.ADMIN, UserRole.PARENT)
+  @ApiOperation({
+    summary: 'Resolve an SOS incident (PARENT of the child or ADMIN)',
+  })
+  @ApiParam({ name: 'id', description: 'SOS incident ID' })
+  @ApiResponse({ status: 200, description: 'Incident resolved' })
+  @ApiResponse({ status: 400, description: 'Incident is already resolved' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'SOS incident not found' })
+  resolve(
+    @Param('id') id: string,
+    @Body() resolveSosDto: ResolveSosDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.sosService.resolve(id, resolveSosDto, currentUser);
+  }
+}
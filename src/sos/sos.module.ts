@@ -0,0 +1,23 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SosController } from './sos.controller';
+import { SosService } from './sos.service';
+import { SosIncident, SosIncidentSchema } from './schemas/sos-incident.schema';
+import { Child, ChildSchema } from '../child/schemas/child.schema';
+import { NotificationModule } from '../notification/notification.module';
+import { MessageModule } from '../message/message.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SosIncident.name, schema: SosIncidentSchema },
+      { name: Child.name, schema: ChildSchema },
+    ]),
+    forwardRef(() => NotificationModule),
+    forwardRef(() => MessageModule),
+  ],
+  controllers: [SosController],
+  providers: [SosService],
+  exports: [SosService],
+})
+export class SosModule {}
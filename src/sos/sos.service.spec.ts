@@ -0,0 +1,51 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ForbiddenException } from '@nestjs/common';
+import { SosService } from './sos.service';
+import { SosIncident } from './schemas/sos-incident.schema';
+import { Child } from '../child/schemas/child.schema';
+import { NotificationService } from '../notification/notification.service';
+import { ChatGateway } from '../message/gateway/chat.gateway';
+
+describe('SosService', () => {
+  let service: SosService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SosService,
+        {
+          provide: getModelToken(SosIncident.name),
+          useValue: {},
+        },
+        {
+          provide: getModelToken(Child.name),
+          useValue: {},
+        },
+        {
+          provide: NotificationService,
+          useValue: {},
+        },
+        {
+          provide: ChatGateway,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = module.get<SosService>(SosService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should only let children trigger an SOS', async () => {
+    await expect(
+      service.trigger(
+        {},
+        { id: '665f1c9f6e9a5f0984b2d111', type: 'user', role: 'PARENT' },
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
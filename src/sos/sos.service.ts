@@ -0,0 +1,265 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SosIncident,
+  SosIncidentDocument,
+  SosStatus,
+} from './schemas/sos-incident.schema';
+import { Child, ChildDocument } from '../child/schemas/child.schema';
+import { UserRole } from '../user/schemas/user.schema';
+import { TriggerSosDto } from './dto/trigger-sos.dto';
+import { ResolveSosDto } from './dto/resolve-sos.dto';
+import { NotificationService } from '../notification/notification.service';
+import { ChatGateway } from '../message/gateway/chat.gateway';
+
+@Injectable()
+export class SosService {
+  constructor(
+    @InjectModel(SosIncident.name)
+    private sosIncidentModel: Model<SosIncidentDocument>,
+    @InjectModel(Child.name) private childModel: Model<ChildDocument>,
+    @Inject(forwardRef(() => NotificationService))
+    private notificationService: NotificationService,
+    @Inject(forwardRef(() => ChatGateway))
+    private chatGateway: ChatGateway,
+  ) {}
+
+  /**
+   * Get all parent IDs of a child (main parent + linked parents)
+   */
+  private getParentIds(child: Child): string[] {
+    return [
+      child.parent.toString(),
+      ...child.linkedParents.map((p) => p.toString()),
+    ];
+  }
+
+  /**
+   * Assert current user can manage incidents of this child (parent, linked parent or admin)
+   */
+  private assertParentAccess(child: Child, currentUser: any): void {
+    if (currentUser.role === UserRole.ADMIN) {
+      return;
+    }
+    if (currentUser.type === 'child') {
+      throw new ForbiddenException('Only parents can manage SOS incidents');
+    }
+    if (!this.getParentIds(child).includes(currentUser.id)) {
+      throw new ForbiddenException(
+        'You can only manage SOS incidents of your own children',
+      );
+    }
+  }
+
+  /**
+   * Push an incident to every parent of the child (and the child) over socket
+   */
+  private emitToFamily(child: Child, event: string, incident: any): void {
+    for (const parentId of this.getParentIds(child)) {
+      this.chatGateway.sendMessageToUser(parentId, event, incident);
+    }
+    this.chatGateway.sendMessageToUser(
+      (child as any)._id.toString(),
+      event,
+      incident,
+    );
+  }
+
+  /**
+   * Trigger an SOS from the current child
+   * If an incident is already open it is refreshed instead of creating a duplicate
+   */
+  async trigger(dto: TriggerSosDto, currentUser: any): Promise<SosIncident> {
+    if (currentUser.type !== 'child') {
+      throw new ForbiddenException('Only children can trigger an SOS');
+    }
+
+    const child = await this.childModel.findById(currentUser.id);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    const hasFreshLocation =
+      typeof dto.lat === 'number' && typeof dto.lng === 'number';
+    const location = hasFreshLocation
+      ? { lat: dto.lat as number, lng: dto.lng as number }
+      : child.location?.lat != null && child.location?.lng != null
+        ? { lat: child.location.lat, lng: child.location.lng }
+        : null;
+
+    const openIncident = await this.sosIncidentModel
+      .findOne({
+        child: child._id,
+        status: { $in: [SosStatus.ACTIVE, SosStatus.ACKNOWLEDGED] },
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    if (openIncident) {
+      // Child pressed SOS again: refresh the location and let parents know, no new email/SMS
+      openIncident.lastTriggeredAt = new Date();
+      if (location) {
+        openIncident.location = location;
+      }
+      if (dto.message) {
+        openIncident.message = dto.message;
+      }
+      await openIncident.save();
+
+      this.emitToFamily(child, 'sosUpdated', openIncident.toObject());
+      return openIncident;
+    }
+
+    const incident = await this.sosIncidentModel.create({
+      child: child._id,
+      location,
+      message: dto.message ?? null,
+      status: SosStatus.ACTIVE,
+      lastTriggeredAt: new Date(),
+    });
+
+    this.emitToFamily(child, 'sos', incident.toObject());
+
+    // Inbox/email/SMS fan-out (async, don't block the child)
+    this.notifyParents(child, incident).catch((error) => {
+      console.error('Error sending SOS notifications:', error);
+    });
+
+    return incident;
+  }
+
+  /**
+   * Send SOS alert to all parents through the notification service
+   */
+  private async notifyParents(
+    child: Child,
+    incident: SosIncident,
+  ): Promise<void> {
+    for (const parentId of this.getParentIds(child)) {
+      try {
+        await this.notificationService.sendSosAlert(parentId, {
+          child,
+          incident,
+        });
+      } catch (error) {
+        console.error(
+          `Failed to send SOS notification to parent ${parentId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Acknowledge an active incident (parent is on it)
+   */
+  async acknowledge(id: string, currentUser: any): Promise<SosIncident> {
+    const { incident, child } = await this.findIncidentWithChild(id);
+    this.assertParentAccess(child, currentUser);
+
+    if (incident.status !== SosStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Cannot acknowledge an incident that is ${incident.status}`,
+      );
+    }
+
+    incident.status = SosStatus.ACKNOWLEDGED;
+    incident.acknowledgedBy = new Types.ObjectId(currentUser.id);
+    incident.acknowledgedAt = new Date();
+    await incident.save();
+
+    this.emitToFamily(child, 'sosUpdated', incident.toObject());
+    return incident;
+  }
+
+  /**
+   * Resolve an active or acknowledged incident
+   */
+  async resolve(
+    id: string,
+    dto: ResolveSosDto,
+    currentUser: any,
+  ): Promise<SosIncident> {
+    const { incident, child } = await this.findIncidentWithChild(id);
+    this.assertParentAccess(child, currentUser);
+
+    if (incident.status === SosStatus.RESOLVED) {
+      throw new BadRequestException('Incident is already resolved');
+    }
+
+    const now = new Date();
+    if (!incident.acknowledgedAt) {
+      incident.acknowledgedBy = new Types.ObjectId(currentUser.id);
+      incident.acknowledgedAt = now;
+    }
+    incident.status = SosStatus.RESOLVED;
+    incident.resolvedBy = new Types.ObjectId(currentUser.id);
+    incident.resolvedAt = now;
+    incident.resolutionNote = dto.note ?? null;
+    await incident.save();
+
+    this.emitToFamily(child, 'sosUpdated', incident.toObject());
+    return incident;
+  }
+
+  /**
+   * Get SOS history of a child (newest first)
+   */
+  async findForChild(
+    childId: string,
+    currentUser: any,
+    status?: SosStatus,
+  ): Promise<SosIncident[]> {
+    const child = await this.childModel.findById(childId);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    if (currentUser.type === 'child') {
+      if (currentUser.id !== childId) {
+        throw new ForbiddenException(
+          'You can only access your own SOS history',
+        );
+      }
+    } else {
+      this.assertParentAccess(child, currentUser);
+    }
+
+    const query: any = { child: child._id };
+    if (status) {
+      query.status = status;
+    }
+
+    return this.sosIncidentModel
+      .find(query)
+      .populate('acknowledgedBy', 'firstName lastName avatarUrl')
+      .populate('resolvedBy', 'firstName lastName avatarUrl')
+      .sort({ createdAt: -1 })
+      .limit(100) // Limit to last 100 incidents
+      .exec();
+  }
+
+  private async findIncidentWithChild(
+    id: string,
+  ): Promise<{ incident: SosIncidentDocument; child: ChildDocument }> {
+    const incident = await this.sosIncidentModel.findById(id);
+    if (!incident) {
+      throw new NotFoundException('SOS incident not found');
+    }
+
+    const child = await this.childModel.findById(incident.child);
+    if (!child) {
+      throw new NotFoundException('Child not found');
+    }
+
+    return { incident, child };
+  }
+}
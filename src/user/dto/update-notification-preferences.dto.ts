@@ -0,0 +1,169 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsOptional,
+  IsTimeZone,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+class NotificationChannelsDto {
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Send this alert by email',
+  })
+  @IsOptional()
+  @IsBoolean()
+  email?: boolean;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Send this alert by SMS',
+  })
+  @IsOptional()
+  @IsBoolean()
+  sms?: boolean;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Store this alert in the in-app inbox',
+  })
+  @IsOptional()
+  @IsBoolean()
+  inApp?: boolean;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Send this alert as a push notification to registered devices',
+  })
+  @IsOptional()
+  @IsBoolean()
+  push?: boolean;
+}
+
+class QuietHoursDto {
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Defer non-critical alerts during the quiet window',
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    example: '22:00',
+    description: 'Start time (HH:mm, quiet hours timezone)',
+  })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'start must be in HH:mm format',
+  })
+  start?: string;
+
+  @ApiPropertyOptional({
+    example: '07:00',
+    description:
+      'End time (HH:mm). Earlier than start means the window ends the next day',
+  })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'end must be in HH:mm format',
+  })
+  end?: string;
+
+  @ApiPropertyOptional({
+    example: 'Africa/Casablanca',
+    description: 'IANA timezone of start/end',
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+}
+
+/**
+ * Partial update: only the provided channels/fields are changed
+ */
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({
+    type: NotificationChannelsDto,
+    description: 'Danger/safe zone alerts',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  dangerZone?: NotificationChannelsDto;
+
+  @ApiPropertyOptional({
+    type: NotificationChannelsDto,
+    description: 'SOS alerts',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  sos?: NotificationChannelsDto;
+
+  @ApiPropertyOptional({
+    type: NotificationChannelsDto,
+    description: 'Low battery alerts',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  battery?: NotificationChannelsDto;
+
+  @ApiPropertyOptional({
+    type: NotificationChannelsDto,
+    description: 'Devices that stopped reporting',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  deviceSilent?: NotificationChannelsDto;
+
+  @ApiPropertyOptional({
+    type: NotificationChannelsDto,
+    description: 'New chat message alerts',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  newMessage?: NotificationChannelsDto;
+
+  @ApiPropertyOptional({
+    type: NotificationChannelsDto,
+    description: 'Child check-ins ("I arrived")',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  checkIn?: NotificationChannelsDto;
+
+  @ApiPropertyOptional({
+    type: NotificationChannelsDto,
+    description: 'Expected arrivals that did not happen by their deadline',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  missedArrival?: NotificationChannelsDto;
+
+  @ApiPropertyOptional({
+    type: NotificationChannelsDto,
+    description: 'Calls that rang out or were cancelled before being answered',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationChannelsDto)
+  missedCall?: NotificationChannelsDto;
+
+  @ApiPropertyOptional({
+    type: QuietHoursDto,
+    description:
+      'Quiet hours (SOS and alarming zone alerts are never deferred)',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuietHoursDto)
+  quietHours?: QuietHoursDto;
+}
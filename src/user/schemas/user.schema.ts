@@ -14,6 +14,48 @@ export enum UserStatus {
   SUSPENDED = 'SUSPENDED',
 }
 
+/**
+ * Alert types a parent can configure delivery channels for
+ */
+export enum AlertType {
+  DANGER_ZONE = 'dangerZone',
+  SOS = 'sos',
+  BATTERY = 'battery',
+  DEVICE_SILENT = 'deviceSilent',
+  NEW_MESSAGE = 'newMessage',
+  CHECK_IN = 'checkIn',
+  MISSED_ARRIVAL = 'missedArrival',
+  MISSED_CALL = 'missedCall',
+}
+
+export interface NotificationChannels {
+  email: boolean;
+  sms: boolean;
+  inApp: boolean;
+  push: boolean;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm in timezone
+  end: string; // HH:mm in timezone, earlier than start means overnight
+  timezone: string;
+}
+
+export type NotificationPreferences = Record<
+  AlertType,
+  NotificationChannels
+> & {
+  quietHours: QuietHours;
+};
+
+const channelsProp = (email: boolean, sms: boolean) => ({
+  email: { type: Boolean, default: email },
+  sms: { type: Boolean, default: sms },
+  inApp: { type: Boolean, default: true },
+  push: { type: Boolean, default: true },
+});
+
 @Schema({ timestamps: true })
 export class User {
   @Prop({ required: true })
@@ -64,9 +106,31 @@ export class User {
   @Prop({ type: String, default: null, unique: false, sparse: true })
   googleId: string | null;
 
+  // Missing keys (older accounts) are filled with the defaults below
+  @Prop({
+    type: {
+      _id: false,
+      [AlertType.DANGER_ZONE]: channelsProp(true, true),
+      [AlertType.SOS]: channelsProp(true, true),
+      [AlertType.BATTERY]: channelsProp(true, false),
+      [AlertType.DEVICE_SILENT]: channelsProp(true, false),
+      [AlertType.NEW_MESSAGE]: channelsProp(false, false),
+      [AlertType.CHECK_IN]: channelsProp(false, false),
+      [AlertType.MISSED_ARRIVAL]: channelsProp(true, true),
+      [AlertType.MISSED_CALL]: channelsProp(false, false),
+      quietHours: {
+        enabled: { type: Boolean, default: false },
+        start: { type: String, default: '22:00' },
+        end: { type: String, default: '07:00' },
+        timezone: { type: String, default: 'UTC' },
+      },
+    },
+    default: () => ({}),
+  })
+  notificationPreferences: NotificationPreferences;
+
   @Prop({ type: Object, default: {} })
   additionalAttributes: Record<string, any>;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
-
@@ -1,20 +1,31 @@
-import { Injectable, NotFoundException, ForbiddenException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import * as bcrypt from 'bcrypt';
-import { User, UserDocument, UserRole } from './schemas/user.schema';
+import {
+  User,
+  UserDocument,
+  UserRole,
+  NotificationPreferences,
+} from './schemas/user.schema';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
 
 @Injectable()
 export class UserService {
-  constructor(
-    @InjectModel(User.name) private userModel: Model<UserDocument>,
-  ) {}
+  constructor(@InjectModel(User.name) private userModel: Model<UserDocument>) {}
 
   async create(createUserDto: CreateUserDto, currentUser: any): Promise<User> {
     // Check if user already exists
-    const existingUser = await this.userModel.findOne({ email: createUserDto.email });
+    const existingUser = await this.userModel.findOne({
+      email: createUserDto.email,
+    });
     if (existingUser) {
       throw new ConflictException('User with this email already exists');
     }
@@ -39,7 +50,10 @@ export class UserService {
       return this.userModel.find().select('-password').exec();
     } else if (currentUser.role === UserRole.PARENT) {
       // PARENT can only see themselves
-      return this.userModel.find({ _id: currentUser.id }).select('-password').exec();
+      return this.userModel
+        .find({ _id: currentUser.id })
+        .select('-password')
+        .exec();
     } else {
       // This shouldn't happen due to controller guards, but just in case
       return [];
@@ -59,7 +73,11 @@ export class UserService {
     return user;
   }
 
-  async update(id: string, updateUserDto: UpdateUserDto, currentUser: any): Promise<User> {
+  async update(
+    id: string,
+    updateUserDto: UpdateUserDto,
+    currentUser: any,
+  ): Promise<User> {
     // ADMIN can update any user, PARENT can only update themselves
     if (currentUser.role !== UserRole.ADMIN && currentUser.id !== id) {
       throw new ForbiddenException('You can only update your own profile');
@@ -72,7 +90,9 @@ export class UserService {
 
     // Check if email is being changed and if it's already taken
     if (updateUserDto.email && updateUserDto.email !== user.email) {
-      const existingUser = await this.userModel.findOne({ email: updateUserDto.email });
+      const existingUser = await this.userModel.findOne({
+        email: updateUserDto.email,
+      });
       if (existingUser) {
         throw new ConflictException('User with this email already exists');
       }
@@ -89,11 +109,14 @@ export class UserService {
     }
 
     // Use findByIdAndUpdate for partial updates - doesn't validate unmodified required fields
-    const updatedUser = await this.userModel.findByIdAndUpdate(
-      id,
-      { $set: updateUserDto },
-      { new: true, runValidators: true }
-    ).select('-password').exec();
+    const updatedUser = await this.userModel
+      .findByIdAndUpdate(
+        id,
+        { $set: updateUserDto },
+        { new: true, runValidators: true },
+      )
+      .select('-password')
+      .exec();
 
     if (!updatedUser) {
       throw new NotFoundException('User not found');
@@ -120,10 +143,54 @@ export class UserService {
   }
 
   async getProfile(currentUser: any): Promise<User> {
-    const user = await this.userModel.findById(currentUser.id).select('-password').exec();
+    const user = await this.userModel
+      .findById(currentUser.id)
+      .select('-password')
+      .exec();
     if (!user) {
       throw new NotFoundException('User not found');
     }
     return user;
   }
+
+  async getNotificationPreferences(
+    currentUser: any,
+  ): Promise<NotificationPreferences> {
+    const user = await this.userModel
+      .findById(currentUser.id)
+      .select('notificationPreferences')
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user.notificationPreferences;
+  }
+
+  async updateNotificationPreferences(
+    dto: UpdateNotificationPreferencesDto,
+    currentUser: any,
+  ): Promise<NotificationPreferences> {
+    // Flatten to dot paths so omitted channels keep their current value
+    const $set: Record<string, any> = {};
+    for (const [section, values] of Object.entries(dto)) {
+      for (const [key, value] of Object.entries(values ?? {})) {
+        if (value !== undefined) {
+          $set[`notificationPreferences.${section}.${key}`] = value;
+        }
+      }
+    }
+
+    const user = await this.userModel
+      .findByIdAndUpdate(
+        currentUser.id,
+        { $set },
+        { new: true, runValidators: true },
+      )
+      .select('notificationPreferences')
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user.notificationPreferences;
+  }
 }